@@ -0,0 +1,219 @@
+import type {OpenPolicyAgent} from './index';
+import {Redaction} from './redaction';
+
+export namespace Audit {
+
+    /**
+     * One audited decision.
+     */
+    export type Entry = {
+        /**
+         * ISO timestamp of the decision.
+         */
+        timestamp: string;
+        /**
+         * Decision path (e.g. `authz/allow`).
+         */
+        path: string;
+        input?: OpenPolicyAgent.Document;
+        result?: unknown;
+        /**
+         * ID of the OPA evaluation that produced the result. With `reused`, the entry shares it with the entry of
+         * that evaluation, as OPA logged it only once.
+         */
+        decision_id?: string;
+        /**
+         * Set when the decision was not evaluated by OPA for this call: it was served from the decision cache
+         * (`cache`), or shared with a concurrent identical call (`coalesced`).
+         */
+        reused?: 'cache' | 'coalesced';
+        /**
+         * Caller context passed with the call's `audit` request option (e.g. request ID, user).
+         */
+        context?: Record<string, unknown>;
+    }
+
+    /**
+     * Destination of audit entries. Writes are sequential: `write` is not called again until the previous call settles.
+     */
+    export interface Sink {
+        write(entries: Entry[]): void | Promise<void>;
+        close?(): void | Promise<void>;
+    }
+
+    export type Options = {
+        sink: Sink;
+        /**
+         * JSON pointers into each entry whose values are replaced by `[REDACTED]`, e.g. `/input/user/email` or `/context/user`.
+         */
+        mask?: string[];
+        /**
+         * Maximum number of entries waiting to be written. Entries recorded while the buffer is full are dropped.
+         * @default 10000
+         */
+        bufferSize?: number;
+        /**
+         * Maximum number of entries per `write`.
+         * @default 500
+         */
+        batchSize?: number;
+        /**
+         * Called when entries are dropped because the buffer is full, or when the sink fails to write them.
+         */
+        onError?: (error: Error, entries: Entry[]) => void;
+    }
+
+    /**
+     * Buffers audit entries and writes them to a sink in the background, so auditing never delays a decision.
+     * Pass it as the client's `audit` option to record every `data.get`/`data.post` decision.
+     * @example
+     * const audit = new Audit.Log({sink: new Audit.FileSink('/var/log/app/decisions.jsonl'), mask: ['/input/token']});
+     * const opa = new OPAClient({baseUrl, audit});
+     * await opa.authorize('authz/allow', input, {audit: {request_id: req.id, user: req.user.id}});
+     * process.on('SIGTERM', () => audit.close());
+     */
+    export class Log {
+
+        private buffer: Entry[] = [];
+        private writing?: Promise<void>;
+        private closed = false;
+        private dropped = 0;
+
+        /**
+         * @throws Error When a `mask` entry is not a valid JSON pointer.
+         */
+        constructor(private readonly options: Options) {
+            options.mask?.forEach((pointer) => Redaction.tokens(pointer));
+        }
+
+        /**
+         * Number of entries dropped because the buffer was full.
+         */
+        get droppedEntries(): number {
+            return this.dropped;
+        }
+
+        /**
+         * Masks and buffers an entry, and schedules a write. Never throws and never waits for the sink.
+         */
+        record(entry: Entry): void {
+            let masked: Entry;
+            try {
+                masked = Redaction.apply(entry, this.options.mask ?? []);
+            } catch (error) {
+                // The unmasked entry is not passed on, as it may hold the values the mask protects
+                this.dropped++;
+                this.options.onError?.(error instanceof Error ? error : new Error(String(error)), []);
+                return;
+            }
+            if (this.closed || this.buffer.length >= (this.options.bufferSize ?? 10_000)) {
+                this.dropped++;
+                this.options.onError?.(new Error(this.closed ? 'Audit log is closed' : 'Audit buffer is full'), [masked]);
+                return;
+            }
+            this.buffer.push(masked);
+            this.writing ??= Promise.resolve().then(() => this.drain());
+        }
+
+        private async drain(): Promise<void> {
+            while (this.buffer.length) {
+                const batch = this.buffer.splice(0, this.options.batchSize ?? 500);
+                try {
+                    await this.options.sink.write(batch);
+                } catch (error) {
+                    this.options.onError?.(error instanceof Error ? error : new Error(String(error)), batch);
+                }
+            }
+            this.writing = undefined;
+        }
+
+        /**
+         * Resolves once every entry recorded so far has been handed to the sink.
+         */
+        async flush(): Promise<void> {
+            while (this.writing) await this.writing;
+        }
+
+        /**
+         * Flushes pending entries and closes the sink. Entries recorded afterwards are dropped.
+         */
+        async close(): Promise<void> {
+            this.closed = true;
+            await this.flush();
+            await this.options.sink.close?.();
+        }
+
+    }
+
+    export type FileSinkOptions = {
+        /**
+         * Rotates the file before a write would make it larger than this many bytes.
+         */
+        maxBytes?: number;
+        /**
+         * Rotates the file when it has been open for this many milliseconds (e.g. `86_400_000` for daily files).
+         */
+        maxAge?: number;
+        /**
+         * Number of rotated files to keep; older ones are deleted. Keeps every file when omitted.
+         */
+        maxFiles?: number;
+    }
+
+    /**
+     * Appends entries to a JSON Lines file, rotating it by size and/or age. A rotated file is renamed to
+     * `<path>.<timestamp>`, e.g. `decisions.jsonl.2026-01-01T00-00-00-000Z`, with a `-<n>` suffix when that name is taken.
+     */
+    export class FileSink implements Sink {
+
+        private size?: number;
+        private opened = Date.now();
+
+        constructor(private readonly path: string, private readonly options: FileSinkOptions = {}) {
+        }
+
+        async write(entries: Entry[]): Promise<void> {
+            const fs = await import('node:fs/promises');
+            const chunk = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+            const bytes = new TextEncoder().encode(chunk).length;
+
+            if (this.size === undefined) {
+                const stat = await fs.stat(this.path).catch(() => undefined);
+                this.size = stat?.size ?? 0;
+                this.opened = stat && stat.size > 0 ? stat.birthtimeMs || stat.mtimeMs : Date.now();
+            }
+
+            const {maxBytes, maxAge} = this.options;
+            const full = maxBytes !== undefined && this.size > 0 && this.size + bytes > maxBytes;
+            const old = maxAge !== undefined && this.size > 0 && Date.now() - this.opened >= maxAge;
+            if (full || old) await this.rotate();
+
+            await fs.appendFile(this.path, chunk, 'utf8');
+            this.size += bytes;
+        }
+
+        private async rotate(): Promise<void> {
+            const fs = await import('node:fs/promises');
+            const {dirname, basename, join} = await import('node:path');
+
+            // rename() replaces an existing file, so rotations within the same millisecond get a counter suffix
+            const stamped = `${this.path}.${new Date().toISOString().replace(/[:.]/g, '-')}`;
+            let target = stamped;
+            for (let n = 1; await fs.stat(target).then(() => true, () => false); n++) target = `${stamped}-${n}`;
+            await fs.rename(this.path, target);
+            this.size = 0;
+            this.opened = Date.now();
+
+            if (this.options.maxFiles === undefined) return;
+            const directory = dirname(this.path);
+            const prefix = `${basename(this.path)}.`;
+            const rotated = (await fs.readdir(directory)).filter((name) => name.startsWith(prefix))
+                .sort((a, b) => a.localeCompare(b, undefined, {numeric: true}));
+            for (const name of rotated.slice(0, Math.max(0, rotated.length - this.options.maxFiles))) {
+                await fs.rm(join(directory, name), {force: true});
+            }
+        }
+
+    }
+
+}
@@ -0,0 +1,828 @@
+import type {KeyObject} from 'node:crypto';
+import type {IncomingMessage, ServerResponse} from 'node:http';
+import type {OpenPolicyAgent} from './index';
+import {delay, isObject, isPrefix, segments} from './internal';
+
+export namespace Bundle {
+
+    /**
+     * Contents of the `.manifest` file.
+     * @see https://www.openpolicyagent.org/docs/latest/management-bundles/#bundle-file-format
+     */
+    export type Manifest = {
+        /**
+         * Revision of the bundle, reported back through the status API once activated.
+         */
+        revision?: string;
+        /**
+         * Slash-separated path prefixes owned by the bundle. Every data file and package must live under one of them.
+         */
+        roots?: string[];
+        /**
+         * Rego version of the modules (`0` for v0 syntax, `1` for v1 syntax).
+         */
+        rego_version?: number;
+        /**
+         * Arbitrary metadata, available in policies under `data.system.bundles`.
+         */
+        metadata?: Record<string, unknown>;
+    }
+
+    export type DataFile = {
+        /**
+         * Slash-separated directory of the `data.json` file. An empty string is the bundle root.
+         */
+        path: string;
+        value: OpenPolicyAgent.Document;
+    }
+
+    export type ModuleFile = {
+        /**
+         * Path of the `.rego` file inside the bundle, e.g. `authz/policy.rego`.
+         */
+        path: string;
+        raw: string;
+    }
+
+    /**
+     * Typed representation of a bundle.
+     */
+    export type Contents = {
+        manifest: Manifest;
+        data: DataFile[];
+        modules: ModuleFile[];
+        /**
+         * Contents of `.signatures.json`, present for signed bundles.
+         */
+        signatures?: Signatures;
+    }
+
+    /**
+     * Contents of the `.signatures.json` file.
+     * @see https://www.openpolicyagent.org/docs/latest/management-bundles/#signature-format
+     */
+    export type Signatures = {
+        signatures: string[];
+    }
+
+    export type SignedFile = {
+        /**
+         * Path of the file inside the bundle.
+         */
+        name: string;
+        /**
+         * Hex-encoded digest of the file.
+         */
+        hash: string;
+        algorithm: string;
+    }
+
+    /**
+     * Payload of the JWT in `.signatures.json`.
+     */
+    export type SignaturePayload = {
+        files: SignedFile[];
+        /**
+         * Deprecated by OPA in favor of the `kid` JWT header, still honored on verification.
+         */
+        keyid?: string;
+        scope?: string;
+        iat?: number;
+        iss?: string;
+    }
+
+    export type SigningAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+    export type SigningOptions = {
+        algorithm: SigningAlgorithm;
+        /**
+         * HMAC secret for `HS256`, or a PEM-encoded private key (or `KeyObject`) for `RS256`/`ES256`.
+         */
+        key: string | Uint8Array | KeyObject;
+        /**
+         * Key identifier, written to the `kid` JWT header.
+         */
+        keyId?: string;
+        /**
+         * Scope claim, checked against the verification scope.
+         */
+        scope?: string;
+    }
+
+    export type VerificationKey = {
+        algorithm: SigningAlgorithm;
+        /**
+         * HMAC secret for `HS256`, or a PEM-encoded public key or certificate (or `KeyObject`) for `RS256`/`ES256`.
+         */
+        key: string | Uint8Array | KeyObject;
+        /**
+         * Scope expected by this key, used when the verification options set none.
+         */
+        scope?: string;
+    }
+
+    /**
+     * Mirrors OPA's `keys` configuration and the bundle `signing` settings.
+     */
+    export type VerificationOptions = {
+        keys: Record<string, VerificationKey>;
+        /**
+         * Key used when the JWT names none (`signing.keyid`).
+         */
+        keyId?: string;
+        /**
+         * Expected scope (`signing.scope`).
+         */
+        scope?: string;
+        /**
+         * Bundle files excluded from verification (`signing.exclude_files`).
+         */
+        exclude?: string[];
+    }
+
+    /**
+     * A single file inside the bundle archive.
+     */
+    export type File = {
+        /**
+         * Path inside the archive, without a leading slash.
+         */
+        path: string;
+        content: Uint8Array;
+    }
+
+    const SIGNATURES = '.signatures.json';
+
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+
+    /**
+     * Extracts the package path of a Rego module, e.g. `package authz.rules` becomes `['authz', 'rules']`.
+     */
+    const packagePath = (raw: string): string[] | undefined => {
+        const match = /^\s*package\s+([^\s#]+)/m.exec(raw);
+        return match?.[1].split('.');
+    };
+
+    /**
+     * Checks that every data file and package lives under one of the manifest roots, as OPA does on activation.
+     */
+    const validateRoots = (contents: Contents): void => {
+        const roots = contents.manifest.roots;
+        if (roots === undefined) return;
+        const owned = (path: string[]) => roots.some((root) => isPrefix(segments(root), path));
+        for (const file of contents.data) {
+            if (!owned(segments(file.path))) {
+                throw new Error(`data.json at '${file.path || '/'}' is outside of the bundle roots`);
+            }
+        }
+        for (const module of contents.modules) {
+            const pkg = packagePath(module.raw);
+            if (!pkg) throw new Error(`${module.path}: missing package declaration`);
+            if (!owned(pkg)) throw new Error(`${module.path}: package ${pkg.join('.')} is outside of the bundle roots`);
+        }
+    };
+
+    /**
+     * Serializes bundle contents into archive files: `.manifest`, `data.json` per data path and `.rego` modules.
+     */
+    export const toFiles = (contents: Contents): File[] => {
+        validateRoots(contents);
+        const json = (value: unknown) => encoder.encode(JSON.stringify(value));
+        return [
+            ...(contents.signatures ? [{path: SIGNATURES, content: json(contents.signatures)}] : []),
+            {path: '.manifest', content: json(contents.manifest)},
+            ...contents.data.map((file) => ({
+                path: [...segments(file.path), 'data.json'].join('/'),
+                content: json(file.value),
+            })),
+            ...contents.modules.map((module) => ({
+                path: segments(module.path).join('/'),
+                content: encoder.encode(module.raw),
+            })),
+        ];
+    };
+
+    /**
+     * Parses archive files into typed bundle contents. Files other than `.manifest`, `data.json` and `.rego` are ignored.
+     */
+    export const fromFiles = (files: File[]): Contents => {
+        const contents: Contents = {manifest: {}, data: [], modules: []};
+        for (const file of files) {
+            const parts = segments(file.path);
+            const name = parts[parts.length - 1];
+            if (file.path === '.manifest') {
+                contents.manifest = JSON.parse(decoder.decode(file.content));
+            } else if (file.path === SIGNATURES) {
+                contents.signatures = JSON.parse(decoder.decode(file.content));
+            } else if (name === 'data.json') {
+                contents.data.push({path: parts.slice(0, -1).join('/'), value: JSON.parse(decoder.decode(file.content))});
+            } else if (name?.endsWith('.rego')) {
+                contents.modules.push({path: parts.join('/'), raw: decoder.decode(file.content)});
+            }
+        }
+        return contents;
+    };
+
+    const merge = (target: unknown, value: unknown): unknown => {
+        if (!isObject(target) || !isObject(value)) return value;
+        const merged: Record<string, unknown> = {...target};
+        for (const [key, child] of Object.entries(value)) merged[key] = merge(merged[key], child);
+        return merged;
+    };
+
+    /**
+     * Merges every data file into a single document, as OPA does when loading the bundle.
+     */
+    export const document = (contents: Contents): OpenPolicyAgent.Document => {
+        return contents.data.reduce<unknown>((root, file) => merge(
+            root,
+            segments(file.path).reduceRight<unknown>((value, segment) => ({[segment]: value}), file.value)
+        ), {});
+    };
+
+    // =============================================================================
+    // Tar (ustar) archive
+    // =============================================================================
+
+    const BLOCK = 512;
+
+    const writeString = (block: Uint8Array, offset: number, length: number, value: string): void => {
+        const bytes = encoder.encode(value);
+        if (bytes.length > length) throw new Error(`tar: '${value}' does not fit in ${length} bytes`);
+        block.set(bytes, offset);
+    };
+
+    const writeOctal = (block: Uint8Array, offset: number, length: number, value: number): void => {
+        writeString(block, offset, length, value.toString(8).padStart(length - 1, '0') + '\0');
+    };
+
+    const readString = (block: Uint8Array, offset: number, length: number): string => {
+        const bytes = block.subarray(offset, offset + length);
+        const end = bytes.indexOf(0);
+        return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+    };
+
+    const readOctal = (block: Uint8Array, offset: number, length: number): number => {
+        return parseInt(readString(block, offset, length).trim() || '0', 8);
+    };
+
+    /**
+     * Splits a path over the ustar `prefix` (155 bytes) and `name` (100 bytes) fields.
+     */
+    const splitName = (path: string): [prefix: string, name: string] => {
+        if (encoder.encode(path).length <= 100) return ['', path];
+        for (let i = path.lastIndexOf('/'); i > 0; i = path.lastIndexOf('/', i - 1)) {
+            const prefix = path.slice(0, i);
+            const name = path.slice(i + 1);
+            if (encoder.encode(name).length <= 100 && encoder.encode(prefix).length <= 155) return [prefix, name];
+        }
+        throw new Error(`tar: path too long: ${path}`);
+    };
+
+    const header = (path: string, size: number): Uint8Array => {
+        const block = new Uint8Array(BLOCK);
+        const [prefix, name] = splitName(path);
+        writeString(block, 0, 100, name);
+        writeOctal(block, 100, 8, 0o644);
+        writeOctal(block, 108, 8, 0);
+        writeOctal(block, 116, 8, 0);
+        writeOctal(block, 124, 12, size);
+        writeOctal(block, 136, 12, 0);
+        block.fill(0x20, 148, 156);
+        block[156] = 0x30; // regular file
+        writeString(block, 257, 6, 'ustar\0');
+        writeString(block, 263, 2, '00');
+        writeString(block, 345, 155, prefix);
+        writeOctal(block, 148, 7, block.reduce((sum, byte) => sum + byte, 0));
+        block[155] = 0x20;
+        return block;
+    };
+
+    const collect = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> => {
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    };
+
+    const bytesStream = (bytes: Uint8Array): ReadableStream<Uint8Array> => {
+        return new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(bytes);
+                controller.close();
+            },
+        });
+    };
+
+    /**
+     * Writes files into a gzip-compressed tar archive. Entries are written with a leading slash and a zero
+     * modification time, like `opa build`, so identical contents produce identical archives.
+     */
+    export const pack = async (files: File[]): Promise<Uint8Array> => {
+        const blocks: Uint8Array[] = [];
+        for (const file of files) {
+            blocks.push(header(`/${file.path}`, file.content.length), file.content);
+            const padding = (BLOCK - file.content.length % BLOCK) % BLOCK;
+            if (padding) blocks.push(new Uint8Array(padding));
+        }
+        blocks.push(new Uint8Array(BLOCK * 2));
+
+        const tar = new Uint8Array(blocks.reduce((size, block) => size + block.length, 0));
+        blocks.reduce((offset, block) => (tar.set(block, offset), offset + block.length), 0);
+
+        return collect(bytesStream(tar).pipeThrough(
+            new CompressionStream('gzip') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>
+        ));
+    };
+
+    /**
+     * Reads the regular files of a gzip-compressed tar archive. Supports ustar, PAX and GNU long names.
+     */
+    export const unpack = async (archive: Uint8Array): Promise<File[]> => {
+        const tar = await collect(bytesStream(archive).pipeThrough(
+            new DecompressionStream('gzip') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>
+        ));
+
+        const files: File[] = [];
+        let longName: string | undefined;
+        for (let offset = 0; offset + BLOCK <= tar.length;) {
+            const block = tar.subarray(offset, offset + BLOCK);
+            if (block.every((byte) => byte === 0)) break;
+
+            const size = readOctal(block, 124, 12);
+            const type = String.fromCharCode(block[156] || 0x30);
+            const content = tar.slice(offset + BLOCK, offset + BLOCK + size);
+            offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+            if (type === 'L') {
+                longName = readString(content, 0, content.length);
+            } else if (type === 'x') {
+                longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(decoder.decode(content))?.[1] ?? longName;
+            } else {
+                const prefix = readString(block, 345, 155);
+                const name = longName ?? (prefix ? `${prefix}/${readString(block, 0, 100)}` : readString(block, 0, 100));
+                longName = undefined;
+                if (type === '0' || type === '7') {
+                    files.push({path: name.replace(/^(\.?\/)+/, ''), content});
+                }
+            }
+        }
+        return files;
+    };
+
+    /**
+     * Builds a bundle archive (`.tar.gz`) from typed contents.
+     */
+    export const build = (contents: Contents): Promise<Uint8Array> => pack(toFiles(contents));
+
+    /**
+     * Reads a bundle archive (`.tar.gz`) back into typed contents.
+     */
+    export const read = async (archive: Uint8Array): Promise<Contents> => fromFiles(await unpack(archive));
+
+    // =============================================================================
+    // Signing
+    // =============================================================================
+
+    /**
+     * Thrown when a bundle fails signature verification. Messages follow OPA's own verification errors.
+     */
+    export class VerificationError extends Error {
+    }
+
+    /**
+     * JSON encoding of a string as Go's `encoding/json` produces it, which OPA uses for hashing.
+     */
+    const quote = (value: string): string => {
+        const escapes: Record<string, string> = {'"': '\\"', '\\': '\\\\', '\n': '\\n', '\r': '\\r', '\t': '\\t'};
+        return `"${value.replace(/["\\\u0000-\u001f\u2028\u2029]/g, (char) =>
+            escapes[char] ?? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+        )}"`;
+    };
+
+    /**
+     * Serializes a JSON value with sorted object keys and no whitespace, the form OPA hashes structured files in.
+     * Numbers are written in JavaScript's shortest form, so a file spelling `1.0` hashes differently than in OPA.
+     */
+    const canonical = (value: unknown): string => {
+        if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+        if (value !== null && typeof value === 'object') {
+            const object = value as Record<string, unknown>;
+            return `{${Object.keys(object).sort().map((key) => `${quote(key)}:${canonical(object[key])}`).join(',')}}`;
+        }
+        return typeof value === 'string' ? quote(value) : JSON.stringify(value);
+    };
+
+    /**
+     * OPA hashes `.manifest` and `data.json` files on their parsed, canonical form, and every other file byte for byte.
+     */
+    const isStructured = (path: string): boolean => {
+        const name = path.slice(path.lastIndexOf('/') + 1);
+        return name === '.manifest' || name === 'data.json' || name === SIGNATURES;
+    };
+
+    const digest = async (file: File): Promise<string> => {
+        const {createHash} = await import('node:crypto');
+        const name = file.path.slice(file.path.lastIndexOf('/') + 1);
+        if (name === 'data.yaml' || name === 'data.yml') {
+            throw new VerificationError(`${file.path}: YAML data files are not supported`);
+        }
+        const content = isStructured(file.path) ? canonical(JSON.parse(decoder.decode(file.content))) : file.content;
+        return createHash('sha256').update(content).digest('hex');
+    };
+
+    const base64url = (value: string | Uint8Array): string => Buffer.from(value).toString('base64url');
+
+    const jws = async (algorithm: SigningAlgorithm, key: SigningOptions['key'], data: string): Promise<Uint8Array> => {
+        const crypto = await import('node:crypto');
+        const privateKey = () => key instanceof crypto.KeyObject ? key : crypto.createPrivateKey(Buffer.from(key));
+        switch (algorithm) {
+            case 'HS256':
+                return crypto.createHmac('sha256', key instanceof crypto.KeyObject ? key : Buffer.from(key)).update(data).digest();
+            case 'RS256':
+                return crypto.sign('sha256', Buffer.from(data), privateKey());
+            case 'ES256':
+                return crypto.sign('sha256', Buffer.from(data), {key: privateKey(), dsaEncoding: 'ieee-p1363'});
+        }
+    };
+
+    const verifyJws = async (algorithm: SigningAlgorithm, key: VerificationKey['key'], data: string, signature: Uint8Array): Promise<boolean> => {
+        const crypto = await import('node:crypto');
+        const publicKey = () => key instanceof crypto.KeyObject ? key : crypto.createPublicKey(Buffer.from(key));
+        switch (algorithm) {
+            case 'HS256': {
+                const expected = await jws('HS256', key, data);
+                return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+            }
+            case 'RS256':
+                return crypto.verify('sha256', Buffer.from(data), publicKey(), signature);
+            case 'ES256':
+                return crypto.verify('sha256', Buffer.from(data), {key: publicKey(), dsaEncoding: 'ieee-p1363'}, signature);
+        }
+    };
+
+    /**
+     * Signs bundle contents: hashes every file with SHA-256 and stores a JWT in `.signatures.json`.
+     * Requires `node:crypto`.
+     * @returns A copy of the contents with `signatures` set.
+     */
+    export const sign = async (contents: Contents, options: SigningOptions): Promise<Contents> => {
+        const files = toFiles({...contents, signatures: undefined});
+        const payload: SignaturePayload = {
+            files: await Promise.all(files.map(async (file) => ({name: file.path, hash: await digest(file), algorithm: 'SHA-256'}))),
+            ...(options.scope ? {scope: options.scope} : undefined),
+        };
+        const header = {alg: options.algorithm, ...(options.keyId ? {kid: options.keyId} : undefined)};
+        const data = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+        const signature = await jws(options.algorithm, options.key, data);
+        return {...structuredClone(contents), signatures: {signatures: [`${data}.${base64url(signature)}`]}};
+    };
+
+    /**
+     * Verifies a signed bundle the way OPA does before activating it: exactly one JWT, a known key, a matching
+     * scope, a valid signature, and a matching digest for every file. Requires `node:crypto`.
+     * @param bundle - Bundle archive (`.tar.gz`), its files, or typed contents.
+     * @param options - Verification keys and settings.
+     * @returns The verified signature payload.
+     * @throws {VerificationError} When verification fails.
+     */
+    export const verify = async (bundle: Uint8Array | File[] | Contents, options: VerificationOptions): Promise<SignaturePayload> => {
+        const files = bundle instanceof Uint8Array ? await unpack(bundle) : Array.isArray(bundle) ? bundle : toFiles(bundle);
+        const signatures = files.find((file) => file.path === SIGNATURES);
+        if (!signatures) throw new VerificationError('bundle missing .signatures.json file');
+
+        const tokens: unknown = JSON.parse(decoder.decode(signatures.content)).signatures;
+        if (!Array.isArray(tokens) || tokens.length === 0) {
+            throw new VerificationError('.signatures.json: missing JWT (expected exactly one)');
+        }
+        if (tokens.length > 1) {
+            throw new VerificationError('.signatures.json: multiple JWTs not supported (expected exactly one)');
+        }
+
+        const [encodedHeader, encodedPayload, encodedSignature] = String(tokens[0]).split('.');
+        let header: { alg?: string, kid?: string };
+        let payload: SignaturePayload;
+        try {
+            header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+            payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+        } catch {
+            throw new VerificationError('failed to parse JWT');
+        }
+
+        const keyId = header.kid || payload.keyid || options.keyId || '';
+        const key = options.keys[keyId];
+        if (!key) throw new VerificationError(`verification key corresponding to ID ${keyId} not found`);
+
+        const valid = header.alg === key.algorithm && await verifyJws(
+            key.algorithm, key.key, `${encodedHeader}.${encodedPayload}`, Buffer.from(encodedSignature ?? '', 'base64url')
+        ).catch((error) => {
+            throw new VerificationError(`invalid verification key ${keyId}: ${error instanceof Error ? error.message : error}`);
+        });
+        if (!valid) throw new VerificationError('failed to verify JWT signature');
+
+        const scope = options.scope || key.scope || '';
+        if ((payload.scope ?? '') !== scope) throw new VerificationError('scope mismatch');
+
+        const excluded = new Set(options.exclude);
+        const signed = new Map((payload.files ?? []).map((file) => [file.name.replace(/^\/+/, ''), file]));
+        for (const file of files) {
+            if (file.path === SIGNATURES || excluded.has(file.path)) continue;
+            const expected = signed.get(file.path);
+            if (!expected) throw new VerificationError(`file ${file.path} not included in bundle signature`);
+            if (expected.algorithm !== 'SHA-256') throw new VerificationError(`unsupported hashing algorithm: ${expected.algorithm}`);
+            const actual = await digest(file);
+            if (actual !== expected.hash) {
+                throw new VerificationError(`${file.path}: digest mismatch (want: ${expected.hash}, got: ${actual})`);
+            }
+            signed.delete(file.path);
+        }
+        const missing = [...signed.keys()].filter((name) => !excluded.has(name));
+        if (missing.length) {
+            throw new VerificationError(`file(s) ${missing.join(', ')} specified in the bundle signature but not found in the target bundle`);
+        }
+
+        return payload;
+    };
+
+    /**
+     * Fluent builder for bundle contents.
+     * @example
+     * const archive = await new Bundle.Builder()
+     *     .revision('v1')
+     *     .roots('authz')
+     *     .data('authz/roles', {admin: ['alice']})
+     *     .module('authz/policy.rego', 'package authz\n\nallow if input.user == "alice"')
+     *     .build();
+     */
+    export class Builder {
+
+        private readonly contents: Contents = {manifest: {}, data: [], modules: []};
+
+        private signing?: SigningOptions;
+
+        revision(revision: string): this {
+            this.contents.manifest.revision = revision;
+            return this;
+        }
+
+        roots(...roots: string[]): this {
+            this.contents.manifest.roots = [...(this.contents.manifest.roots ?? []), ...roots];
+            return this;
+        }
+
+        metadata(metadata: Record<string, unknown>): this {
+            this.contents.manifest.metadata = {...this.contents.manifest.metadata, ...metadata};
+            return this;
+        }
+
+        regoVersion(version: number): this {
+            this.contents.manifest.rego_version = version;
+            return this;
+        }
+
+        /**
+         * Adds a `data.json` file at a slash-separated path. An empty path is the bundle root.
+         */
+        data(path: string, value: OpenPolicyAgent.Document): this {
+            this.contents.data.push({path, value});
+            return this;
+        }
+
+        /**
+         * Adds a Rego module at a file path inside the bundle.
+         */
+        module(path: string, raw: string): this {
+            if (!path.endsWith('.rego')) throw new Error(`Module path must end with .rego: ${path}`);
+            this.contents.modules.push({path, raw});
+            return this;
+        }
+
+        /**
+         * Returns a copy of the contents collected so far.
+         */
+        toContents(): Contents {
+            return structuredClone(this.contents);
+        }
+
+        /**
+         * Signs the bundle when it is built.
+         */
+        sign(options: SigningOptions): this {
+            this.signing = options;
+            return this;
+        }
+
+        async build(): Promise<Uint8Array> {
+            return build(this.signing ? await sign(this.contents, this.signing) : this.contents);
+        }
+
+    }
+
+    // =============================================================================
+    // Server
+    // =============================================================================
+
+    /**
+     * Content type that tells OPA's bundle plugin the server supports long polling.
+     */
+    const BUNDLE_CONTENT_TYPE = 'application/vnd.openpolicyagent.bundles';
+
+    export type Published = {
+        name: string;
+        revision?: string;
+        /**
+         * Quoted strong ETag of the archive.
+         */
+        etag: string;
+        archive: Uint8Array;
+        publishedAt: Date;
+    }
+
+    export type ServerOptions = {
+        /**
+         * Path prefix the bundles are served under. `/bundles/authz.tar.gz` and `/bundles/authz` both serve bundle `authz`.
+         * @default '/bundles/'
+         */
+        prefix?: string;
+        /**
+         * Upper bound in seconds for long polls requested with `Prefer: wait=N`.
+         * @default 300
+         */
+        maxWait?: number;
+    }
+
+    export type ActivationOptions = {
+        /**
+         * How long to wait for OPA to activate the revision, in milliseconds.
+         * @default 30000
+         */
+        timeout?: number;
+        /**
+         * Delay between `status.get()` calls, in milliseconds.
+         * @default 500
+         */
+        interval?: number;
+    }
+
+    type Reply = { status: number, headers: Record<string, string>, body?: Uint8Array };
+
+    /**
+     * Serves named bundles to OPA's bundle plugin, with `ETag`/`If-None-Match` support and long polling.
+     * @example
+     * const server = new Bundle.Server();
+     * http.createServer(server.node).listen(8080);
+     * await server.publish('authz', await builder.build());
+     * await server.waitForActivation(client, 'authz');
+     */
+    export class Server {
+
+        private readonly bundles = new Map<string, Published>();
+        private readonly waiters = new Map<string, Set<() => void>>();
+
+        constructor(private readonly options: ServerOptions = {}) {
+        }
+
+        /**
+         * Publishes a new revision of a bundle and wakes up every long poll waiting on it.
+         * @param name - Bundle name, as referenced by OPA's bundle `resource`.
+         * @param bundle - Bundle archive or contents to build.
+         */
+        async publish(name: string, bundle: Uint8Array | Contents): Promise<Published> {
+            const archive = bundle instanceof Uint8Array ? bundle : await build(bundle);
+            const manifest = bundle instanceof Uint8Array ? (await read(bundle)).manifest : bundle.manifest;
+            const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', archive as Uint8Array<ArrayBuffer>));
+            const published: Published = {
+                name,
+                revision: manifest.revision,
+                etag: `"${Array.from(hash, (byte) => byte.toString(16).padStart(2, '0')).join('')}"`,
+                archive,
+                publishedAt: new Date(),
+            };
+            this.bundles.set(name, published);
+            this.notify(name);
+            return published;
+        }
+
+        /**
+         * Stops serving a bundle. OPA receives `404` on its next poll.
+         */
+        remove(name: string): boolean {
+            const removed = this.bundles.delete(name);
+            this.notify(name);
+            return removed;
+        }
+
+        get(name: string): Published | undefined {
+            return this.bundles.get(name);
+        }
+
+        private notify(name: string): void {
+            this.waiters.get(name)?.forEach((wake) => wake());
+            this.waiters.delete(name);
+        }
+
+        /**
+         * Resolves once the bundle changes, `seconds` elapse or the request is aborted.
+         */
+        private wait(name: string, seconds: number, signal?: AbortSignal): Promise<void> {
+            return new Promise((resolve) => {
+                const waiters = this.waiters.get(name) ?? new Set();
+                this.waiters.set(name, waiters);
+                const wake = () => {
+                    clearTimeout(timer);
+                    waiters.delete(wake);
+                    signal?.removeEventListener('abort', wake);
+                    resolve();
+                };
+                const timer = setTimeout(wake, seconds * 1000);
+                waiters.add(wake);
+                signal?.addEventListener('abort', wake, {once: true});
+            });
+        }
+
+        private async handle(method: string, url: string, header: (name: string) => string | undefined, signal?: AbortSignal): Promise<Reply> {
+            if (method !== 'GET' && method !== 'HEAD') {
+                return {status: 405, headers: {Allow: 'GET, HEAD'}};
+            }
+            const prefix = this.options.prefix ?? '/bundles/';
+            let path: string;
+            try {
+                path = decodeURIComponent(new URL(url, 'http://localhost').pathname);
+            } catch {
+                return {status: 400, headers: {}};
+            }
+            if (!path.startsWith(prefix)) return {status: 404, headers: {}};
+            const name = path.slice(prefix.length).replace(/\.tar\.gz$/, '');
+
+            let bundle = this.bundles.get(name);
+            const ifNoneMatch = header('if-none-match');
+            const wait = /(?:^|[;,\s])wait=(\d+)/.exec(header('prefer') ?? '')?.[1];
+            if (bundle && ifNoneMatch === bundle.etag && wait !== undefined && !signal?.aborted) {
+                await this.wait(name, Math.min(Number(wait), this.options.maxWait ?? 300), signal);
+                bundle = this.bundles.get(name);
+            }
+
+            if (!bundle) return {status: 404, headers: {}};
+            const headers = {'Content-Type': BUNDLE_CONTENT_TYPE, ETag: bundle.etag};
+            if (ifNoneMatch === bundle.etag) return {status: 304, headers};
+            return {status: 200, headers, body: method === 'HEAD' ? undefined : bundle.archive};
+        }
+
+        /**
+         * Node `http` request handler.
+         */
+        readonly node = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+            const controller = new AbortController();
+            res.once('close', () => controller.abort());
+            const header = (name: string) => {
+                const value = req.headers[name];
+                return Array.isArray(value) ? value.join(', ') : value;
+            };
+            try {
+                const reply = await this.handle(req.method ?? 'GET', req.url ?? '/', header, controller.signal);
+                if (res.writableEnded || res.destroyed) return;
+                res.writeHead(reply.status, reply.headers);
+                res.end(reply.body);
+            } catch {
+                // Never let a rejection escape to the HTTP server, where it would crash the process
+                if (res.writableEnded || res.destroyed) return;
+                if (res.headersSent) res.destroy();
+                else res.writeHead(500).end();
+            }
+        };
+
+        /**
+         * Fetch API handler (`Request → Response`).
+         */
+        readonly fetch = async (request: Request): Promise<Response> => {
+            const reply = await this.handle(request.method, request.url, (name) => request.headers.get(name) ?? undefined, request.signal);
+            return new Response(reply.body as Uint8Array<ArrayBuffer> | undefined, {status: reply.status, headers: reply.headers});
+        };
+
+        /**
+         * Polls `status.get()` until OPA reports the published revision of a bundle as active.
+         * @param client - Client for the OPA instance that downloads the bundle.
+         * @param name - Bundle name as configured in OPA.
+         * @param options - Timeout and polling interval.
+         * @throws {Error} When OPA reports an activation or download error after the bundle was published, or on timeout.
+         */
+        async waitForActivation(client: OpenPolicyAgent.Client, name: string, options: ActivationOptions = {}): Promise<void> {
+            const published = this.bundles.get(name);
+            if (!published) throw new Error(`Bundle ${name} is not published`);
+            if (published.revision === undefined) throw new Error(`Bundle ${name} has no revision in its manifest`);
+            const deadline = Date.now() + (options.timeout ?? 30000);
+
+            for (; ;) {
+                const status = (await client.status.get()).result.bundles?.[name];
+                if (status?.active_revision === published.revision) return;
+                if (status?.code && status.last_request && new Date(status.last_request) >= published.publishedAt) {
+                    throw new Error(`Bundle ${name} failed to activate: ${status.code}: ${status.message}`);
+                }
+                if (Date.now() >= deadline) {
+                    throw new Error(`Bundle ${name} revision ${published.revision} was not activated in time`);
+                }
+                await delay(options.interval ?? 500);
+            }
+        }
+
+    }
+
+}
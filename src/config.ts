@@ -0,0 +1,402 @@
+import type {OpenPolicyAgent} from './index';
+import {isObject} from './internal';
+
+export namespace Config {
+
+    /**
+     * A problem found in a configuration.
+     */
+    export type Issue = {
+        /**
+         * Location of the problem, e.g. `bundles.authz.service` or `services[0].url`.
+         */
+        path: string;
+        message: string;
+    }
+
+    /**
+     * Thrown by {@link Builder.build} when the configuration is invalid.
+     */
+    export class ValidationError extends Error {
+
+        constructor(public readonly issues: Issue[]) {
+            super(`Invalid OPA configuration:\n${issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+        }
+
+    }
+
+    type Shape =
+        | 'string' | 'number' | 'boolean' | 'any'
+        | { oneOf: readonly string[] }
+        | { list: Shape }
+        | { map: Shape }
+        | { fields: Record<string, Shape>, required?: readonly string[] };
+
+    const list = (of: Shape): Shape => ({list: of});
+    const map = (of: Shape): Shape => ({map: of});
+    const object = (fields: Record<string, Shape>, required?: readonly string[]): Shape => ({fields, required});
+    const oneOf = (...values: string[]): Shape => ({oneOf: values});
+
+    const trigger = oneOf('periodic', 'manual');
+    const buckets = object({buckets: list('number')});
+
+    const service = object({
+        url: 'string',
+        headers: map('string'),
+        allow_insecure_tls: 'boolean',
+        response_header_timeout_seconds: 'number',
+        tls: object({ca_cert: 'string', system_ca_required: 'boolean'}),
+        credentials: object({
+            bearer: object({token: 'string', token_path: 'string', scheme: 'string'}),
+            oauth2: object({
+                token_url: 'string',
+                grant_type: oneOf('client_credentials', 'jwt_bearer'),
+                client_id: 'string',
+                client_secret: 'string',
+                signing_key: 'string',
+                thumbprint: 'string',
+                scopes: list('string'),
+                additional_headers: map('string'),
+                additional_parameters: map('string'),
+                additional_claims: map('any'),
+                include_jti_claim: 'boolean',
+            }, ['token_url']),
+            client_tls: object({cert: 'string', private_key: 'string', private_key_passphrase: 'string'}, ['cert', 'private_key']),
+            s3_signing: object({
+                environment_credentials: object({}),
+                metadata_credentials: object({aws_region: 'string', iam_role: 'string', service: 'string'}),
+                web_identity_credentials: object({aws_region: 'string', session_name: 'string'}),
+                profile_credentials: object({path: 'string', profile: 'string', aws_region: 'string'}),
+                service: 'string',
+                signature_version: oneOf('4', '4a'),
+            }),
+            gcp_metadata: object({
+                audience: 'string',
+                scopes: list('string'),
+                endpoint: 'string',
+                access_token_path: 'string',
+                id_token_path: 'string',
+            }),
+            azure_managed_identity: object({
+                endpoint: 'string',
+                api_version: 'string',
+                resource: 'string',
+                object_id: 'string',
+                client_id: 'string',
+                mi_res_id: 'string',
+            }),
+            plugin: 'string',
+        }),
+    }, ['url']);
+
+    const bundleFields: Record<string, Shape> = {
+        service: 'string',
+        resource: 'string',
+        signing: object({keyid: 'string', scope: 'string', exclude_files: list('string')}),
+        persist: 'boolean',
+        polling: object({min_delay_seconds: 'number', max_delay_seconds: 'number', long_polling_timeout_seconds: 'number'}),
+        trigger,
+        size_limit_bytes: 'number',
+    };
+
+    const schema = object({
+        services: 'any', // a map or a list of named services, checked separately
+        labels: map('string'),
+        keys: map(object({key: 'string', private_key: 'string', algorithm: 'string', scope: 'string'})),
+        default_decision: 'string',
+        default_authorization_decision: 'string',
+        bundles: map(object(bundleFields)),
+        decision_logs: object({
+            service: 'string',
+            resource: 'string',
+            partition_name: 'string',
+            reporting: object({
+                buffer_type: oneOf('size', 'event'),
+                buffer_size_limit_bytes: 'number',
+                buffer_size_limit_events: 'number',
+                upload_size_limit_bytes: 'number',
+                min_delay_seconds: 'number',
+                max_delay_seconds: 'number',
+                trigger,
+            }),
+            request_context: object({http: object({headers: list('string')})}),
+            mask_decision: 'string',
+            drop_decision: 'string',
+            console: 'boolean',
+            plugin: 'string',
+        }),
+        status: object({
+            service: 'string',
+            partition_name: 'string',
+            console: 'boolean',
+            prometheus: 'boolean',
+            prometheus_config: object({collectors: object({bundle_loading_duration_ns: buckets})}),
+            plugin: 'string',
+            trigger,
+        }),
+        discovery: object({...bundleFields, decision: 'string'}),
+        caching: object({
+            inter_query_builtin_cache: object({
+                max_size_bytes: 'number',
+                forced_eviction_threshold_percentage: 'number',
+                stale_entry_eviction_period_seconds: 'number',
+            }),
+            inter_query_builtin_value_cache: object({max_num_entries: 'number'}),
+        }),
+        distributed_tracing: object({
+            type: oneOf('grpc', 'http'),
+            address: 'string',
+            service_name: 'string',
+            sample_percentage: 'number',
+            encryption: oneOf('off', 'tls', 'mtls'),
+            allow_insecure_tls: 'boolean',
+            tls_ca_cert_file: 'string',
+            tls_cert_file: 'string',
+            tls_private_key_file: 'string',
+            resource: object({service_version: 'string', service_instance_id: 'string', service_namespace: 'string'}),
+        }),
+        server: object({
+            encoding: object({gzip: object({min_length: 'number', compression_level: 'number'})}),
+            decoding: object({max_length: 'number', gzip: object({max_length: 'number'})}),
+            metrics: object({prom: object({http_request_duration_seconds: buckets})}),
+        }),
+        storage: object({
+            disk: object({directory: 'string', auto_create: 'boolean', partitions: list('string'), badger: 'string'}, ['directory']),
+        }),
+        persistence_directory: 'string',
+        nd_builtin_cache: 'boolean',
+        plugins: map('any'),
+    });
+
+    const join = (path: string, key: string) => path ? `${path}.${key}` : key;
+
+    /**
+     * Checks a value against a shape, reporting wrong types, unknown keys and missing required keys.
+     */
+    const check = (value: unknown, shape: Shape, path: string, issues: Issue[]): void => {
+        if (shape === 'any') return;
+        if (typeof shape === 'string') {
+            if (typeof value !== shape) issues.push({path, message: `Expected a ${shape}`});
+            return;
+        }
+        if ('oneOf' in shape) {
+            if (!shape.oneOf.includes(value as string)) issues.push({path, message: `Expected one of ${shape.oneOf.join(', ')}`});
+            return;
+        }
+        if ('list' in shape) {
+            if (!Array.isArray(value)) return void issues.push({path, message: 'Expected a list'});
+            value.forEach((item, i) => check(item, shape.list, `${path}[${i}]`, issues));
+            return;
+        }
+        if (!isObject(value)) return void issues.push({path, message: 'Expected an object'});
+        if ('map' in shape) {
+            for (const [key, item] of Object.entries(value)) check(item, shape.map, join(path, key), issues);
+            return;
+        }
+        for (const [key, item] of Object.entries(value)) {
+            if (!(key in shape.fields)) issues.push({path: join(path, key), message: 'Unknown key'});
+            else if (item !== undefined) check(item, shape.fields[key], join(path, key), issues);
+        }
+        for (const key of shape.required ?? []) {
+            if (value[key] === undefined) issues.push({path: join(path, key), message: 'Required'});
+        }
+    };
+
+    /**
+     * Normalizes `services` to entries with their path, reporting malformed lists.
+     */
+    const services = (config: Record<string, unknown>, issues: Issue[]): Map<string, string> => {
+        const names = new Map<string, string>();
+        const value = config.services;
+        if (value === undefined) return names;
+
+        if (Array.isArray(value)) {
+            value.forEach((item, i) => {
+                const path = `services[${i}]`;
+                if (!isObject(item)) return void issues.push({path, message: 'Expected an object'});
+                const {name, ...rest} = item;
+                if (typeof name !== 'string') return void issues.push({path: `${path}.name`, message: 'Required'});
+                if (names.has(name)) issues.push({path: `${path}.name`, message: `Duplicate service "${name}"`});
+                names.set(name, path);
+                check(rest, service, path, issues);
+            });
+        } else if (isObject(value)) {
+            for (const [name, item] of Object.entries(value)) {
+                names.set(name, `services.${name}`);
+                check(item, service, `services.${name}`, issues);
+            }
+        } else {
+            issues.push({path: 'services', message: 'Expected an object or a list'});
+        }
+
+        for (const [name, path] of names) {
+            const item = Array.isArray(value) ? value.find((s) => s?.name === name) : (value as Record<string, any>)[name];
+            const credentials = isObject(item?.credentials) ? Object.keys(item.credentials) : [];
+            if (credentials.length > 1) {
+                issues.push({path: `${path}.credentials`, message: `Only one credential type is allowed, got ${credentials.join(', ')}`});
+            }
+            const bearer = item?.credentials?.bearer;
+            if (isObject(bearer) && bearer.token !== undefined && bearer.token_path !== undefined) {
+                issues.push({path: `${path}.credentials.bearer`, message: 'token and token_path are mutually exclusive'});
+            }
+        }
+        return names;
+    };
+
+    /**
+     * Validates an OPA configuration: value types, unknown keys, required keys, and references between sections
+     * (services named by bundles, discovery, decision logs and status; signing keys; custom plugins).
+     * Returns the issues found, or an empty array for a valid configuration.
+     * @param config - A configuration object, e.g. parsed from YAML or returned by `config.get()`.
+     */
+    export const validate = (config: unknown): Issue[] => {
+        const issues: Issue[] = [];
+        if (!isObject(config)) return [{path: '', message: 'Expected an object'}];
+
+        check(config, schema, '', issues);
+        const names = services(config, issues);
+
+        const keys = isObject(config.keys) ? config.keys : {};
+        const plugins = isObject(config.plugins) ? config.plugins : {};
+
+        const reference = (section: Record<string, unknown>, path: string, local: boolean) => {
+            if (typeof section.service === 'string') {
+                if (!names.has(section.service)) issues.push({path: `${path}.service`, message: `Unknown service "${section.service}"`});
+            } else if (names.size === 0 && !local) {
+                issues.push({path: `${path}.service`, message: 'No service is configured'});
+            }
+            const keyid = isObject(section.signing) ? section.signing.keyid : undefined;
+            if (typeof keyid === 'string' && !(keyid in keys)) {
+                issues.push({path: `${path}.signing.keyid`, message: `Unknown key "${keyid}"`});
+            }
+            const polling = section.polling;
+            if (isObject(polling) && typeof polling.min_delay_seconds === 'number' && typeof polling.max_delay_seconds === 'number'
+                && polling.min_delay_seconds > polling.max_delay_seconds) {
+                issues.push({path: `${path}.polling`, message: 'min_delay_seconds exceeds max_delay_seconds'});
+            }
+            if (typeof section.plugin === 'string' && !(section.plugin in plugins)) {
+                issues.push({path: `${path}.plugin`, message: `Unknown plugin "${section.plugin}"`});
+            }
+        };
+
+        const isFile = (section: Record<string, unknown>) => typeof section.resource === 'string' && section.resource.startsWith('file://');
+        if (isObject(config.bundles)) {
+            for (const [name, bundle] of Object.entries(config.bundles)) {
+                if (isObject(bundle)) reference(bundle, `bundles.${name}`, isFile(bundle));
+            }
+        }
+        if (isObject(config.discovery)) reference(config.discovery, 'discovery', isFile(config.discovery));
+        for (const section of ['decision_logs', 'status'] as const) {
+            const value = config[section];
+            if (isObject(value)) reference(value, section, value.console === true || value.plugin !== undefined);
+        }
+
+        const tracing = config.distributed_tracing;
+        if (isObject(tracing) && typeof tracing.sample_percentage === 'number' && (tracing.sample_percentage < 0 || tracing.sample_percentage > 100)) {
+            issues.push({path: 'distributed_tracing.sample_percentage', message: 'Expected a percentage between 0 and 100'});
+        }
+
+        return issues;
+    };
+
+    /**
+     * Fluent builder for OPA configurations. `build()` validates the result.
+     * The output can be written as JSON, which OPA also accepts as YAML.
+     * @example
+     * const config = new Config.Builder()
+     *     .service('acme', {url: 'https://bundles.acme.com', credentials: {bearer: {token_path: '/var/run/token'}}})
+     *     .bundle('authz', {service: 'acme', resource: 'bundles/authz.tar.gz', signing: {keyid: 'global'}})
+     *     .key('global', {algorithm: 'RS256', key: publicKeyPem})
+     *     .decisionLogs({service: 'acme', reporting: {min_delay_seconds: 5, max_delay_seconds: 10}})
+     *     .build();
+     * await fs.writeFile('opa.json', JSON.stringify(config, null, 2));
+     */
+    export class Builder {
+
+        private readonly config: OpenPolicyAgent.Configuration = {};
+
+        service(name: string, service: OpenPolicyAgent.ServiceConfig): this {
+            const services = this.config.services;
+            if (Array.isArray(services)) services.push({...service, name});
+            else this.config.services = {...services, [name]: service};
+            return this;
+        }
+
+        labels(labels: Record<string, string>): this {
+            this.config.labels = {...this.config.labels, ...labels};
+            return this;
+        }
+
+        key(id: string, key: OpenPolicyAgent.KeyConfig): this {
+            this.config.keys = {...this.config.keys, [id]: key};
+            return this;
+        }
+
+        bundle(name: string, bundle: OpenPolicyAgent.BundleConfig): this {
+            this.config.bundles = {...this.config.bundles, [name]: bundle};
+            return this;
+        }
+
+        decisionLogs(config: OpenPolicyAgent.DecisionLogsConfig): this {
+            this.config.decision_logs = config;
+            return this;
+        }
+
+        status(config: OpenPolicyAgent.StatusConfig): this {
+            this.config.status = config;
+            return this;
+        }
+
+        discovery(config: OpenPolicyAgent.DiscoveryConfig): this {
+            this.config.discovery = config;
+            return this;
+        }
+
+        caching(config: OpenPolicyAgent.CachingConfig): this {
+            this.config.caching = config;
+            return this;
+        }
+
+        distributedTracing(config: OpenPolicyAgent.DistributedTracingConfig): this {
+            this.config.distributed_tracing = config;
+            return this;
+        }
+
+        server(config: OpenPolicyAgent.ServerConfig): this {
+            this.config.server = config;
+            return this;
+        }
+
+        defaultDecision(path: string): this {
+            this.config.default_decision = path;
+            return this;
+        }
+
+        /**
+         * Adds the configuration of a custom plugin.
+         */
+        plugin(name: string, config: unknown): this {
+            this.config.plugins = {...this.config.plugins, [name]: config};
+            return this;
+        }
+
+        /**
+         * Returns a copy of the configuration collected so far, without validating it.
+         */
+        toConfiguration(): OpenPolicyAgent.Configuration {
+            return structuredClone(this.config);
+        }
+
+        /**
+         * Returns a validated copy of the configuration. Throws {@link ValidationError} when it is invalid.
+         */
+        build(): OpenPolicyAgent.Configuration {
+            const config = this.toConfiguration();
+            const issues = validate(config);
+            if (issues.length) throw new ValidationError(issues);
+            return config;
+        }
+
+    }
+
+}
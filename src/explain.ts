@@ -0,0 +1,228 @@
+import type {OpenPolicyAgent} from './index';
+
+export namespace Explain {
+
+    /**
+     * Policy sources keyed by policy ID (the `file` of trace locations).
+     */
+    export type Sources = Record<string, string>;
+
+    export type RenderOptions = {
+        /**
+         * Policy sources, used to resolve rule paths and show source snippets. See {@link sources}.
+         */
+        sources?: Sources;
+        /**
+         * Show the source line under `Fail` events.
+         * @default true when `sources` are given
+         */
+        snippets?: boolean;
+        /**
+         * Show variable bindings under each event.
+         * @default false
+         */
+        locals?: boolean;
+    }
+
+    const INFIX: Record<string, string> = {
+        eq: '=',
+        assign: ':=',
+        equal: '==',
+        neq: '!=',
+        lt: '<',
+        lte: '<=',
+        gt: '>',
+        gte: '>=',
+        plus: '+',
+        minus: '-',
+        mul: '*',
+        div: '/',
+        rem: '%',
+        and: '&',
+        or: '|',
+        'internal.member_2': 'in',
+    };
+
+    const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+    const ref = (terms: OpenPolicyAgent.AstTerm[]): string => terms.map((part, i) => {
+        if (i === 0) return part.type === 'var' ? part.value : term(part);
+        if (part.type === 'string' && IDENTIFIER.test(part.value)) return `.${part.value}`;
+        return `[${term(part)}]`;
+    }).join('');
+
+    /**
+     * Formats a call from its operator and operands, using infix notation for operators.
+     * A trailing extra operand is the output of the call (e.g. `plus(1, 2, x)` is `x = 1 + 2`).
+     */
+    const call = (terms: OpenPolicyAgent.AstTerm[], nested: boolean): string => {
+        const [operator, ...operands] = terms;
+        const name = term(operator);
+        const infix = INFIX[name];
+        if (name === 'internal.member_3' && operands.length === 3) {
+            return `${term(operands[0])}, ${term(operands[1])} in ${term(operands[2])}`;
+        }
+        if (infix && operands.length === 2) {
+            const group = !['=', ':=', 'in'].includes(infix);
+            const text = `${term(operands[0], group)} ${infix} ${term(operands[1], group)}`;
+            return nested ? `(${text})` : text;
+        }
+        if (infix && operands.length === 3) {
+            return `${term(operands[2])} = ${term(operands[0], true)} ${infix} ${term(operands[1], true)}`;
+        }
+        return `${name}(${operands.map((operand) => term(operand)).join(', ')})`;
+    };
+
+    /**
+     * Formats a term of OPA's JSON AST as Rego.
+     */
+    export const term = (value: OpenPolicyAgent.AstTerm, nested = false): string => {
+        switch (value.type) {
+            case 'null':
+                return 'null';
+            case 'boolean':
+            case 'number':
+                return String(value.value);
+            case 'string':
+                return JSON.stringify(value.value);
+            case 'var':
+                return value.value;
+            case 'ref':
+                return ref(value.value);
+            case 'array':
+                return `[${value.value.map((item: OpenPolicyAgent.AstTerm) => term(item)).join(', ')}]`;
+            case 'set':
+                return value.value.length ? `{${value.value.map((item: OpenPolicyAgent.AstTerm) => term(item)).join(', ')}}` : 'set()';
+            case 'object':
+                return `{${value.value.map(([k, v]: OpenPolicyAgent.AstTerm[]) => `${term(k)}: ${term(v)}`).join(', ')}}`;
+            case 'call':
+                return call(value.value, nested);
+            case 'arraycomprehension':
+                return `[${term(value.value.term)} | ${body(value.value.body)}]`;
+            case 'setcomprehension':
+                return `{${term(value.value.term)} | ${body(value.value.body)}}`;
+            case 'objectcomprehension':
+                return `{${term(value.value.key)}: ${term(value.value.value)} | ${body(value.value.body)}}`;
+            default:
+                return JSON.stringify(value.value);
+        }
+    };
+
+    /**
+     * Formats an expression of OPA's JSON AST as Rego.
+     */
+    export const expr = (value: OpenPolicyAgent.AstExpr): string => {
+        const terms = value.terms;
+        let text: string;
+        if (Array.isArray(terms)) {
+            text = call(terms, false);
+        } else if ('symbols' in terms) {
+            text = `some ${terms.symbols.map((symbol) => symbol.type === 'call' ? call(symbol.value, false) : term(symbol)).join(', ')}`;
+        } else if ('domain' in terms) {
+            text = `every ${terms.key ? `${term(terms.key)}, ` : ''}${term(terms.value)} in ${term(terms.domain)} { ${body(terms.body)} }`;
+        } else {
+            text = term(terms);
+        }
+        if (value.negated) text = `not ${text}`;
+        for (const modifier of value.with ?? []) text += ` with ${term(modifier.target)} as ${term(modifier.value)}`;
+        return text;
+    };
+
+    /**
+     * Formats a query or rule body of OPA's JSON AST as Rego.
+     */
+    export const body = (exprs: OpenPolicyAgent.AstExpr[]): string => exprs.map(expr).join('; ');
+
+    /**
+     * Reads the package path declared by a policy source.
+     */
+    const packageOf = (source: string | undefined): string | undefined =>
+        source && /^\s*package\s+(\S+)/m.exec(source)?.[1];
+
+    const rule = (node: OpenPolicyAgent.AstRule, location: OpenPolicyAgent.AstLocation | undefined, sources: Sources): string => {
+        const head = node.head.ref ? ref(node.head.ref) : node.head.name ?? '';
+        const pkg = packageOf(location?.file ? sources[location.file] : undefined);
+        return pkg ? `data.${pkg}.${head}` : head;
+    };
+
+    const details = (event: OpenPolicyAgent.TraceEvent, sources: Sources): string => {
+        if (event.op === 'Note') return JSON.stringify(event.message ?? '');
+        const node = event.type === 'rule' ? rule(event.node as OpenPolicyAgent.AstRule, event.location, sources)
+            : Array.isArray(event.node) ? body(event.node)
+                : expr(event.node as OpenPolicyAgent.AstExpr);
+        return event.message ? `${node} ${event.message}` : node;
+    };
+
+    /**
+     * Renders a trace as `opa eval --explain` does: one line per event, prefixed with its location
+     * and indented by query depth. Pretty traces (requested with `pretty`) are returned as-is.
+     * @param explanation - The `explanation` of a response evaluated with `explain`.
+     * @param options - Render options.
+     * @example
+     * const response = await opa.data.get('authz/allow', {input, explain: 'full'});
+     * console.log(Explain.render(response.explanation!, {sources: await Explain.sources(opa, response.explanation!)}));
+     */
+    export const render = (explanation: OpenPolicyAgent.Explanation, options: RenderOptions = {}): string => {
+        if (explanation.every((line) => typeof line === 'string')) return (explanation as string[]).join('\n');
+        const events = explanation as OpenPolicyAgent.TraceEvent[];
+        const sources = options.sources ?? {};
+        const snippets = options.snippets ?? options.sources !== undefined;
+
+        const locations = events.map((event) => event.location ? `${event.location.file || 'query'}:${event.location.row}` : '');
+        const width = Math.max(0, ...locations.map((location) => location.length));
+        const blank = ' '.repeat(width);
+
+        // A query's depth is one more than its parent's, fixed when first seen.
+        const depths = new Map<number, number>();
+        const lines: string[] = [];
+        events.forEach((event, i) => {
+            let depth = depths.get(event.query_id);
+            if (depth === undefined) {
+                depth = (depths.get(event.parent_id) ?? 0) + 1;
+                depths.set(event.query_id, depth);
+            }
+            const spaces = event.op === 'Enter' || (event.op === 'Redo' && event.type !== 'expr') ? depth : depth + 1;
+            const padding = '| '.repeat(Math.max(0, spaces - 1));
+            lines.push(`${locations[i].padEnd(width)} ${padding}${event.op} ${details(event, sources)}`);
+
+            if (options.locals && event.locals?.length) {
+                lines.push(`${blank} ${padding}  {${event.locals.map(({key, value}) => `${term(key)}: ${term(value)}`).join(', ')}}`);
+            }
+
+            const file = event.location?.file;
+            if (snippets && event.op === 'Fail' && file && sources[file] !== undefined) {
+                const {row, col} = event.location!;
+                const line = sources[file].split('\n')[row - 1];
+                if (line !== undefined) {
+                    const gutter = String(row);
+                    lines.push(`${blank} ${padding}  ${gutter} | ${line}`);
+                    lines.push(`${blank} ${padding}  ${' '.repeat(gutter.length)} | ${' '.repeat(Math.max(0, col - 1))}^`);
+                }
+            }
+        });
+        return lines.join('\n');
+    };
+
+    /**
+     * Fetches the sources of the policies a trace refers to, through the Policy API.
+     * Policies that cannot be fetched (e.g. removed since) are left out.
+     * @param client - Client used to fetch the policies.
+     * @param explanation - The trace.
+     * @param request - Per-call request options.
+     */
+    export const sources = async (client: OpenPolicyAgent.Client, explanation: OpenPolicyAgent.Explanation, request?: OpenPolicyAgent.RequestOptions): Promise<Sources> => {
+        const files = new Set<string>();
+        for (const event of explanation) {
+            if (typeof event !== 'string' && event.location?.file) files.add(event.location.file);
+        }
+        const entries = await Promise.all([...files].map(async (id) => {
+            try {
+                return [id, (await client.policy.get(id, false, request)).result.raw] as const;
+            } catch {
+                return undefined;
+            }
+        }));
+        return Object.fromEntries(entries.filter((entry) => entry !== undefined));
+    };
+
+}
@@ -1,30 +1,40 @@
+import {Prometheus} from './prometheus';
+import {Redaction} from './redaction';
+import {Path} from './path';
+import {Patch} from './patch';
+import type {Audit} from './audit';
+import {canonicalize, delay, isPrefix, segments} from './internal';
+
 export namespace OpenPolicyAgent {
 
     export type PolicyAPI = {
         /**
          * Lists all policy modules loaded into OPA.
+         * @param request - Per-call request options.
          * @returns List of policy modules.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#list-policies
          */
-        list(): Promise<ListPoliciesResponse>,
+        list(request?: RequestOptions): Promise<ListPoliciesResponse>,
         /**
          * Retrieves a policy module by its ID.
          * @param id - The policy module ID.
          * @param pretty - Format response for humans.
+         * @param request - Per-call request options.
          * @returns The policy module.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#get-a-policy
          */
-        get(id: string, pretty: boolean): Promise<GetPolicyResponse>,
+        get(id: string, pretty?: boolean, request?: RequestOptions): Promise<GetPolicyResponse>,
         /**
          * Creates or updates a policy module.
          * @param id - The policy module ID.
          * @param rego - Rego policy as plain text.
          * @param pretty - Format response for humans.
          * @param metrics - Include compiler performance metrics.
+         * @param request - Per-call request options.
          * @returns Empty object on success.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#create-or-update-a-policy
          */
-        put(id: string, rego: string, pretty?: boolean, metrics?: boolean): Promise<Record<string, never>>
+        put(id: string, rego: string, pretty?: boolean, metrics?: boolean, request?: RequestOptions): Promise<Record<string, never>>
         /**
          * @see OPAClient.policy.put
          * @alias put
@@ -32,8 +42,9 @@ export namespace OpenPolicyAgent {
          * @param rego
          * @param pretty
          * @param metrics
+         * @param request
          */
-        create(id: string, rego: string, pretty?: boolean, metrics?: boolean): Promise<Record<string, never>>
+        create(id: string, rego: string, pretty?: boolean, metrics?: boolean, request?: RequestOptions): Promise<Record<string, never>>
         /**
          * @see OPAClient.policy.put
          * @alias put
@@ -41,28 +52,41 @@ export namespace OpenPolicyAgent {
          * @param rego
          * @param pretty
          * @param metrics
+         * @param request
          */
-        update(id: string, rego: string, pretty?: boolean, metrics?: boolean): Promise<Record<string, never>>,
+        update(id: string, rego: string, pretty?: boolean, metrics?: boolean, request?: RequestOptions): Promise<Record<string, never>>,
         /**
          * Deletes a policy module by ID.
          * @param id - The policy module ID.
          * @param pretty - Format response for humans.
          * @param metrics - Include compiler performance metrics.
+         * @param request - Per-call request options.
          * @returns Empty object on success.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#delete-a-policy
          */
-        delete(id: string, pretty?: boolean, metrics?: boolean): Promise<Record<string, never>>
+        delete(id: string, pretty?: boolean, metrics?: boolean, request?: RequestOptions): Promise<Record<string, never>>
+        /**
+         * Checks whether a loaded policy defines a document path, from the module ASTs returned by `list`:
+         * the path is a package (or a parent of one), a rule, or a document inside a rule's value.
+         * Base documents pushed through the Data API are not considered.
+         * @param path - Document path, e.g. `authz/allow` or `Path.parseRef('data.authz.allow')`.
+         * @param request - Per-call request options.
+         * @returns `true` when some module defines the path.
+         */
+        defines(path: Path.Like, request?: RequestOptions): Promise<boolean>
     }
 
     export type DataAPI = {
         /**
          * Gets a document by path (GET with optional input as query param).
-         * @param path - Slash-separated document path.
+         * @param path - Document path: slash-separated or a segment array (see {@link Path.Like}).
+         *   Each segment is percent-encoded; empty and `..` segments throw a {@link Path.InvalidPathError}.
          * @param options - Optional parameters.
+         * @param request - Per-call request options.
          * @returns Document result and optional metadata.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#get-a-document
          */
-        get<T = Document>(path: string, options?: {
+        get<T = Document>(path: Path.Like, options?: {
             /**
              * Provide an input document. Format is a JSON value that will be used as the value for the input document.
              */
@@ -91,17 +115,18 @@ export namespace OpenPolicyAgent {
              * Treat built-in function call errors as fatal and return an error immediately.
              */
             strictBuiltinErrors?: boolean;
-        }): Promise<GetDataResponse<T>>
+        }, request?: RequestOptions): Promise<GetDataResponse<T>>
 
         /**
          * Gets a document using POST with input in request body.
          * @param path - Document path.
          * @param body - Request body containing input.
          * @param options - Optional parameters.
+         * @param request - Per-call request options.
          * @returns Document result and optional metadata.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#get-a-document-with-input
          */
-        post<T = Document>(path: string, body: { input?: T },
+        post<T = Document>(path: Path.Like, body: { input?: T },
                            options?: {
                                pretty?: boolean;
                                provenance?: boolean;
@@ -109,7 +134,8 @@ export namespace OpenPolicyAgent {
                                metrics?: boolean;
                                instrument?: boolean;
                                strictBuiltinErrors?: boolean;
-                           }
+                           },
+                           request?: RequestOptions
         ): Promise<GetDataResponse<T>>
 
         /**
@@ -118,10 +144,11 @@ export namespace OpenPolicyAgent {
          * @param input - Input document (raw, not wrapped).
          * @param pretty - Format response for humans
          * @default false.
+         * @param request - Per-call request options.
          * @returns Raw result (e.g., `true`, `{}`).
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#get-a-document-webhook
          */
-        webhook<T = any>(path: string, input: Document, pretty?: boolean): Promise<T>
+        webhook<T = any>(path: Path.Like, input: Document, pretty?: boolean, request?: RequestOptions): Promise<T>
 
         /**
          * Creates or overwrites a document.
@@ -129,25 +156,40 @@ export namespace OpenPolicyAgent {
          * @param document - Document value.
          * @param ifNoneMatch - Prevent overwrite if document exists.
          * @param metrics - Include performance metrics.
+         * @param request - Per-call request options.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#create-or-overwrite-a-document
          */
-        put(path: string, document: Document, ifNoneMatch?: boolean, metrics?: boolean): Promise<void>
+        put(path: Path.Like, document: Document, ifNoneMatch?: boolean, metrics?: boolean, request?: RequestOptions): Promise<void>
 
         /**
          * Patches a document using JSON Patch (RFC 6902).
          * @param path - Document path.
-         * @param operations - Array of JSON Patch operations.
+         * @param operations - Array of JSON Patch operations, relative to `path`. See {@link Patch.Builder} and {@link Patch.diff}.
+         * @param request - Per-call request options. PATCH is not idempotent, so it is only retried when the retry policy sets `retryNonIdempotent`.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#patch-a-document
          */
-        patch(path: string, operations: any[]): Promise<void>
+        patch(path: Path.Like, operations: Patch.Operation[], request?: RequestOptions): Promise<void>
+
+        /**
+         * Reads a document with `get`, lets `mutator` change it, and sends only the difference with `patch`
+         * (or `put` when the document does not exist yet or changes type). Nothing is sent when nothing changed.
+         * The read and the write are separate requests: a concurrent write in between is overwritten where they overlap.
+         * @param path - Document path.
+         * @param mutator - Receives a copy of the current document (`undefined` when it does not exist),
+         *   and either modifies it in place or returns the new document.
+         * @param request - Per-call request options, used for both requests.
+         * @returns The operations sent.
+         */
+        update<T = Document>(path: Path.Like, mutator: (document: T) => T | void | Promise<T | void>, request?: RequestOptions): Promise<Patch.Operation[]>
 
         /**
          * Deletes a document.
          * @param path - Document path.
          * @param metrics - Include performance metrics.
+         * @param request - Per-call request options.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#delete-a-document
          */
-        delete(path: string, metrics?: boolean): Promise<void>
+        delete(path: Path.Like, metrics?: boolean, request?: RequestOptions): Promise<void>
     }
 
     export type QueryAPI = {
@@ -155,10 +197,11 @@ export namespace OpenPolicyAgent {
          * Executes the default decision query (`POST /`).
          * @param input - Input document.
          * @param pretty - Format response for humans. @default false
+         * @param request - Per-call request options.
          * @returns Result of `/system/main` or configured default decision.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#execute-a-simple-query
          */
-        default<T = any>(input: Document, pretty?: boolean): Promise<T>
+        default<T = any>(input: Document, pretty?: boolean, request?: RequestOptions): Promise<T>
 
         /**
          * Executes an ad-hoc Rego query.
@@ -167,10 +210,11 @@ export namespace OpenPolicyAgent {
          * @param pretty - Format response for humans.
          * @param explain - Include query explanation.
          * @param metrics - Include performance metrics.
+         * @param request - Per-call request options.
          * @returns Query results with variable bindings.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#execute-an-ad-hoc-query
          */
-        adhoc(query: string, input?: Document, pretty?: boolean, explain?: 'notes' | 'fails' | 'full' | 'debug', metrics?: boolean): Promise<ExecuteAdHocQueryResponse>
+        adhoc(query: string, input?: Document, pretty?: boolean, explain?: 'notes' | 'fails' | 'full' | 'debug', metrics?: boolean, request?: RequestOptions): Promise<ExecuteAdHocQueryResponse>
 
     }
 
@@ -182,19 +226,21 @@ export namespace OpenPolicyAgent {
          * @param explain - Include query explanation.
          * @param metrics - Include performance metrics.
          * @param instrument - Enable detailed instrumentation.
+         * @param request - Per-call request options.
          * @returns Partially evaluated queries or unconditional result.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#partially-evaluate-a-query
          */
-        partialEval(req: PartialEvalRequest, pretty?: boolean, explain?: 'notes' | 'fails' | 'full' | 'debug', metrics?: boolean, instrument?: boolean): Promise<PartialEvalResponse>
+        partialEval(req: PartialEvalRequest, pretty?: boolean, explain?: 'notes' | 'fails' | 'full' | 'debug', metrics?: boolean, instrument?: boolean, request?: RequestOptions): Promise<PartialEvalResponse>
         /**
          * Compiles a Rego policy into data filters (e.g., SQL).
          * @param path - Filter rule path (e.g., 'filters/include').
          * @param req - Compile request.
          * @param accept - Accept header (e.g., 'application/vnd.opa.sql.postgresql+json').
+         * @param request - Per-call request options.
          * @returns Generated filter (e.g., SQL WHERE clause).
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#compling-a-rego-policy-and-query-into-data-filters
          */
-        filter(path: string, req: CompileFilterRequest, accept: string): Promise<CompileFilterResponse>
+        filter(path: Path.Like, req: CompileFilterRequest, accept: string, request?: RequestOptions): Promise<CompileFilterResponse>
     }
 
     export type HealthAPI = {
@@ -203,43 +249,462 @@ export namespace OpenPolicyAgent {
          * @param bundles - Require all bundles to be activated.
          * @param plugins - Require all plugins to be OK.
          * @param excludePlugin - Plugin(s) to exclude from check.
+         * @param request - Per-call request options.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#health-api
          */
-        check(bundles?: boolean, plugins?: boolean, excludePlugin?: string | string[]): Promise<void>
+        check(bundles?: boolean, plugins?: boolean, excludePlugin?: string | string[], request?: RequestOptions): Promise<void>
 
         /**
          * Custom health check (e.g., `/health/ready`).
          * @param name - Health check name (e.g., 'ready', 'live').
+         * @param request - Per-call request options.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#custom-health-checks
          */
-        custom(name: string): Promise<void>
+        custom(name: string, request?: RequestOptions): Promise<void>
     }
 
     export type ConfigAPI = {
         /**
          * Retrieves OPA's active configuration (sensitive fields omitted).
          * @param pretty - Format response for humans @default false.
+         * @param request - Per-call request options.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#config-api
          */
-        get(pretty?: boolean): Promise<GetConfigResponse>
+        get(pretty?: boolean, request?: RequestOptions): Promise<GetConfigResponse>
     }
 
     export type StatusAPI = {
         /**
          * Retrieves OPA's operational status.
          * @param pretty - Format response for humans @default false.
+         * @param request - Per-call request options.
          * @see https://www.openpolicyagent.org/docs/latest/rest-api/#status-api
          */
-        get(pretty?: boolean): Promise<GetStatusResponse>
+        get(pretty?: boolean, request?: RequestOptions): Promise<GetStatusResponse>
+    }
+
+    export type MetricsAPI = {
+        /**
+         * Fetches and parses OPA's Prometheus metrics. Use `Prometheus.summarize` for the OPA-specific series.
+         * @param request - Per-call request options.
+         * @see https://www.openpolicyagent.org/docs/latest/monitoring/#prometheus
+         */
+        get(request?: RequestOptions): Promise<Prometheus.Families>
+    }
+
+    export type RetryOptions = {
+        /**
+         * Maximum number of attempts, including the first one.
+         * @default 3
+         */
+        maxAttempts?: number;
+        /**
+         * Base delay in milliseconds before the first retry.
+         * @default 100
+         */
+        initialDelay?: number;
+        /**
+         * Upper bound in milliseconds for a single backoff delay, including delays requested through `Retry-After`.
+         * @default 5000
+         */
+        maxDelay?: number;
+        /**
+         * Multiplier applied to the delay after every attempt.
+         * @default 2
+         */
+        factor?: number;
+        /**
+         * Jitter strategy: `full` picks a random delay between 0 and the backoff, `equal` keeps half of the backoff and randomizes the rest, `none` disables jitter.
+         * @default 'full'
+         */
+        jitter?: 'full' | 'equal' | 'none';
+        /**
+         * HTTP status codes that are considered transient.
+         * @default [429, 502, 503, 504]
+         */
+        retryOn?: number[];
+        /**
+         * Retry when `fetch` itself fails (connection refused, reset, DNS errors), i.e. on a {@link NetworkError}.
+         * @default true
+         */
+        retryOnNetworkError?: boolean;
+        /**
+         * Wait for the delay announced in a `Retry-After` response header instead of the computed backoff.
+         * @default true
+         */
+        respectRetryAfter?: boolean;
+        /**
+         * Also retry non-idempotent calls such as `data.patch`. Read-only evaluations sent with POST are always considered idempotent.
+         * @default false
+         */
+        retryNonIdempotent?: boolean;
+    }
+
+    export type RequestOptions = {
+        /**
+         * Retry policy for this call, merged over the client-wide policy. Pass `false` to disable retries.
+         */
+        retry?: RetryOptions | false;
+        /**
+         * Cancels the call when aborted. The promise rejects with the signal's `reason`.
+         */
+        signal?: AbortSignal;
+        /**
+         * Timeout in milliseconds for this call, including retries. Overrides the client-wide `timeout`; `0` disables it.
+         */
+        timeout?: number;
+        /**
+         * Set to `false` to bypass the decision cache for this call. Only applies to `data.get` and `data.post`.
+         */
+        cache?: boolean;
+        /**
+         * Caller context recorded with this decision by the client's `audit` log (e.g. request ID, user),
+         * or `false` to leave it out of the audit log. Only applies to `data.get` and `data.post`.
+         */
+        audit?: Record<string, unknown> | false;
+        /**
+         * Throw an {@link UndefinedDocumentError} when the decision is undefined, instead of resolving without `result`.
+         * Overrides the client-wide `strict`. Only applies to `data.get` and `data.post`.
+         */
+        strict?: boolean;
+    }
+
+    const DEFAULT_RETRY: Required<RetryOptions> = {
+        maxAttempts: 3,
+        initialDelay: 100,
+        maxDelay: 5000,
+        factor: 2,
+        jitter: 'full',
+        retryOn: [429, 502, 503, 504],
+        retryOnNetworkError: true,
+        respectRetryAfter: true,
+        retryNonIdempotent: false,
+    };
+
+    /**
+     * How a decision resolves when it cannot be evaluated to a boolean:
+     * `closed` denies, `open` allows, `throw` rethrows the underlying error (or a `TypeError` for results).
+     */
+    export type FailMode = 'open' | 'closed' | 'throw';
+
+    export type FailurePolicy = {
+        /**
+         * OPA could not be reached ({@link NetworkError}), or did not answer in time ({@link TimeoutError}).
+         * @default 'closed'
+         */
+        network?: FailMode;
+        /**
+         * OPA answered with an error ({@link ClientError}).
+         * @default 'closed'
+         */
+        clientError?: FailMode;
+        /**
+         * The decision document is undefined (`result` is absent).
+         * @default 'closed'
+         */
+        undefined?: FailMode;
+        /**
+         * The decision document is defined but not a boolean.
+         * @default 'closed'
+         */
+        typeMismatch?: FailMode;
+    }
+
+    export type AuthorizeOptions = RequestOptions & {
+        /**
+         * Failure policy for this decision, merged over the client-wide `failurePolicy`.
+         */
+        failure?: FailurePolicy;
+        /**
+         * Treat built-in function call errors as fatal and return an error immediately.
+         */
+        strictBuiltinErrors?: boolean;
+    }
+
+    export type Decision<T = unknown> = {
+        /**
+         * Whether the caller may proceed.
+         */
+        allowed: boolean;
+        /**
+         * Why `allowed` has its value: the policy's own answer (`allowed`/`denied`) or the failure that was resolved by the failure policy.
+         */
+        reason: 'allowed' | 'denied' | 'undefined' | 'type_mismatch' | 'client_error' | 'network_error';
+        /**
+         * Decision identifier reported by OPA, when decision logging is enabled.
+         */
+        decision_id?: string;
+        /**
+         * The raw decision document, when OPA returned one.
+         */
+        result?: T;
+        /**
+         * The error that was resolved by the failure policy, if any.
+         */
+        error?: unknown;
+    }
+
+    export type CacheOptions = {
+        /**
+         * Time-to-live of a cached decision in milliseconds.
+         * @default 1000
+         */
+        ttl?: number;
+        /**
+         * Maximum number of cached decisions. The least recently used decision is evicted first.
+         * @default 1000
+         */
+        maxEntries?: number;
+    }
+
+    export type CacheStats = {
+        hits: number;
+        misses: number;
+        evictions: number;
+        size: number;
+    }
+
+    export type CacheAPI = {
+        /**
+         * Removes every cached decision at or below a path.
+         * @param pathPrefix - Document path, e.g. `authz` or `authz/allow`. An empty prefix clears the cache.
+         * @returns Number of removed decisions.
+         */
+        invalidate(pathPrefix: Path.Like): number
+        /**
+         * Removes every cached decision.
+         */
+        clear(): void
+        /**
+         * Returns hit/miss counters and the current number of cached decisions. All zero when caching is disabled.
+         */
+        stats(): CacheStats
+    }
+
+    /**
+     * An outgoing request as seen by interceptors.
+     */
+    export type InterceptedRequest = {
+        /**
+         * Fully-qualified request URL.
+         */
+        url: string;
+        /**
+         * Options passed to `fetch`. `headers` is always a `Headers` instance and JSON bodies are still uncompressed.
+         */
+        init: RequestInit & { headers: Headers };
+    }
+
+    /**
+     * Middleware around every HTTP attempt. An interceptor may rewrite the request before calling `next`,
+     * inspect or replace the response `next` resolves with, or short-circuit by returning a response without calling `next`.
+     */
+    export type Interceptor = (
+        request: InterceptedRequest,
+        next: (request: InterceptedRequest) => Promise<Response>
+    ) => Promise<Response>;
+
+    export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+    /**
+     * A leveled logger. `console` and most logging libraries' child loggers with a `(message, fields)` signature fit as-is.
+     */
+    export type Logger = Record<LogLevel, (message: string, fields: Record<string, unknown>) => void>;
+
+    export type LoggingOptions = {
+        logger: Logger;
+        /**
+         * Minimum level to log. Requests are logged at `debug`, responses at `info`, retries at `warn` and failures at `error`.
+         * @default 'info'
+         */
+        level?: LogLevel;
+        /**
+         * JSON pointers of values to mask in logged bodies and in the `input` query parameter,
+         * e.g. `/input/token` or `/input/users/*\/email` (`*` matches every member).
+         */
+        redact?: string[];
+        /**
+         * Logged bodies are truncated to this many characters.
+         * @default 1024
+         */
+        maxBodyLength?: number;
+    }
+
+    const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+    export type SpanAttributeValue = string | number | boolean;
+
+    /**
+     * The subset of an OpenTelemetry `Span` the client uses.
+     */
+    export interface Span {
+        setAttribute(key: string, value: SpanAttributeValue): unknown;
+        setStatus(status: { code: number, message?: string }): unknown;
+        recordException(exception: Error | string): unknown;
+        spanContext(): { traceId: string, spanId: string, traceFlags: number };
+        end(): void;
+    }
+
+    /**
+     * The subset of an OpenTelemetry `Tracer` the client uses, so `trace.getTracer('opa')` can be passed as-is.
+     */
+    export interface Tracer {
+        startSpan(name: string, options?: { kind?: number, attributes?: Record<string, SpanAttributeValue> }): Span;
+    }
+
+    /**
+     * OpenTelemetry's `SpanKind.CLIENT` and `SpanStatusCode.ERROR`.
+     */
+    const SPAN_KIND_CLIENT = 2;
+    const SPAN_STATUS_ERROR = 2;
+
+    /**
+     * Classifies an endpoint for span names and attributes, e.g. `/v1/data/authz/allow` is `data` at `authz/allow`.
+     */
+    const classify = (endpoint: string): { kind: string, path?: string } => {
+        const pathname = endpoint.split('?')[0];
+        const match = /^\/v1\/(data|policies|query|compile|config|status)(?:\/(.*))?$/.exec(pathname);
+        if (!match) return {kind: pathname.split('/')[1] || 'root'};
+        const kind = match[1] === 'policies' ? 'policy' : match[1];
+        return {kind, path: match[2] ? decodeURIComponent(match[2]) : undefined};
+    };
+
+    /**
+     * Reads a ref of OPA's JSON AST as path segments. Variables after the first term (e.g. `x` in `roles[x]`)
+     * match any segment and are returned as `undefined`.
+     */
+    const refSegments = (terms: AstTerm[]): (string | undefined)[] => terms.map((term, i) => {
+        if (i === 0 && term.type === 'var') return term.value;
+        return term.type === 'string' || term.type === 'number' || term.type === 'boolean' ? String(term.value) : undefined;
+    });
+
+    /**
+     * Whether two paths agree on their common prefix.
+     */
+    const overlaps = (pattern: (string | undefined)[], path: string[]): boolean =>
+        pattern.slice(0, path.length).every((segment, i) => segment === undefined || segment === path[i]);
+
+    /**
+     * Whether a module defines a document path: its package is on the path, and the rest of the path
+     * leads to or into one of its rules. Functions are not documents and are ignored.
+     */
+    const moduleDefines = (module: PolicyModule, path: string[]): boolean => {
+        const pkg = refSegments(module.ast?.package?.path ?? []).slice(1);
+        if (!overlaps(pkg, path)) return false;
+        if (path.length <= pkg.length) return true;
+        const rest = path.slice(pkg.length);
+        return (module.ast?.rules as AstRule[] ?? []).some((rule) =>
+            !rule.head.args?.length && overlaps(refSegments(rule.head.ref ?? [{type: 'var', value: rule.head.name}]), rest));
+    };
+
+    /**
+     * A decision as returned by `evaluate`: `reused` tells whether it came from the cache or a concurrent identical call.
+     */
+    type Evaluated<T> = { value: T, reused?: 'cache' | 'coalesced' };
+
+    /**
+     * Waits for a shared promise, bounded by the caller's own signal and timeout, without affecting the shared work.
+     */
+    const waitFor = <T>(shared: Promise<T>, url: string, signal?: AbortSignal, timeout?: number): Promise<T> => {
+        if (!signal && !timeout) return shared;
+        return new Promise<T>((resolve, reject) => {
+            const timer = timeout ? setTimeout(() => settle(() => reject(new TimeoutError(url, timeout))), timeout) : undefined;
+            const abort = () => settle(() => reject(signal!.reason));
+            const settle = (fn: () => void) => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', abort);
+                fn();
+            };
+            if (signal?.aborted) return abort();
+            signal?.addEventListener('abort', abort, {once: true});
+            shared.then((value) => settle(() => resolve(value)), (error) => settle(() => reject(error)));
+        });
+    };
+
+    /**
+     * TTL/LRU store for evaluated decisions, keyed on path, input and options. Decisions are copied in and out,
+     * so a caller mutating its response cannot change what later hits receive.
+     */
+    class DecisionCache {
+
+        private readonly entries = new Map<string, { path: string[], value: unknown, expires: number }>();
+        private readonly counters = {hits: 0, misses: 0, evictions: 0};
+
+        /**
+         * Incremented on every invalidation; a load started before an invalidation is not stored.
+         */
+        generation = 0;
+
+        constructor(private readonly options: Required<CacheOptions>) {
+        }
+
+        static key(path: string, input: Document, options: object): string {
+            return `${segments(path).join('/')}\n${canonicalize(input)}\n${canonicalize(options)}`;
+        }
+
+        get(key: string): unknown {
+            const entry = this.entries.get(key);
+            if (!entry || entry.expires <= Date.now()) {
+                if (entry) this.entries.delete(key);
+                this.counters.misses++;
+                return undefined;
+            }
+            // Re-insert to mark as most recently used
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+            this.counters.hits++;
+            return structuredClone(entry.value);
+        }
+
+        set(key: string, path: string, value: unknown, generation: number): void {
+            if (generation !== this.generation) return;
+            this.entries.delete(key);
+            this.entries.set(key, {path: segments(path), value: structuredClone(value), expires: Date.now() + this.options.ttl});
+            while (this.entries.size > this.options.maxEntries) {
+                this.entries.delete(this.entries.keys().next().value!);
+                this.counters.evictions++;
+            }
+        }
+
+        /**
+         * Removes decisions at or below `path`. With `overlap`, decisions at ancestors of `path` are removed as well,
+         * since writing `a/b` changes the document at `a`.
+         */
+        invalidate(path: string, overlap: boolean = false): number {
+            this.generation++;
+            const target = segments(path);
+            let removed = 0;
+            for (const [key, entry] of this.entries) {
+                if (isPrefix(target, entry.path) || (overlap && isPrefix(entry.path, target))) {
+                    this.entries.delete(key);
+                    removed++;
+                }
+            }
+            return removed;
+        }
+
+        clear(): void {
+            this.generation++;
+            this.entries.clear();
+        }
+
+        stats(): CacheStats {
+            return {...this.counters, size: this.entries.size};
+        }
+
     }
 
     export type OPAError = {
         readonly code: string,
         readonly message: string,
-        readonly location: { file: string, row: number, col: number }
-        readonly details: { line: string, idx: number }
+        readonly location?: { file: string, row: number, col: number }
+        readonly details?: { line: string, idx: number }
     }
 
+    /**
+     * Thrown when OPA answers with an error. {@link ClientError.fromResponse} picks the subclass matching
+     * the documented error `code`, e.g. {@link ResourceNotFoundError} for `resource_not_found`.
+     */
     export class ClientError extends Error {
 
 
@@ -255,6 +720,46 @@ export namespace OpenPolicyAgent {
             })
         }
 
+        /**
+         * Formats the error and each of its `errors` with a code frame: the lines around the error location,
+         * with a caret under the reported column.
+         * @param sources - The Rego source submitted with the request (e.g. to `policy.put`), or sources keyed by policy ID.
+         *   Without a source, the offending line reported by OPA (`details.line`) is shown, when available.
+         * @param context - Number of lines shown before and after the error line. @default 2
+         * @example
+         * try {
+         *     await opa.policy.put('authz', source);
+         * } catch (error) {
+         *     if (error instanceof OpenPolicyAgent.RegoError) console.error(error.format(source));
+         * }
+         */
+        format(sources?: string | Record<string, string>, context = 2): string {
+            const frames = this.errors.map((error) => {
+                const location = error.location;
+                const header = `${location ? `${location.file || 'query'}:${location.row}:${location.col}: ` : ''}${error.code}: ${error.message}`;
+                if (!location) return header;
+
+                const source = typeof sources === 'string' ? sources : sources?.[location.file];
+                if (source === undefined) {
+                    if (!error.details?.line) return header;
+                    return [header, `  | ${error.details.line}`, `  | ${caret(error.details.line, error.details.idx)}`].join('\n');
+                }
+
+                const lines = source.split('\n');
+                const first = Math.max(1, location.row - context);
+                const last = Math.min(lines.length, location.row + context);
+                const width = String(last).length;
+                const frame = [header];
+                for (let row = first; row <= last; row++) {
+                    const line = lines[row - 1].replace(/\r$/, '');
+                    frame.push(`${row === location.row ? '>' : ' '} ${String(row).padStart(width)} | ${line}`.trimEnd());
+                    if (row === location.row) frame.push(`  ${' '.repeat(width)} | ${caret(line, location.col - 1)}`);
+                }
+                return frame.join('\n');
+            });
+            return [`${this.code}: ${this.message}`, ...frames].join('\n\n');
+        }
+
         static async fromResponse(response: Response){
             let code: string = 'unknown';
             let message = `OPA request failed: ${response.status} ${response.statusText}`;
@@ -270,7 +775,134 @@ export namespace OpenPolicyAgent {
             } catch {
                 // Ignore
             }
-            return new ClientError(code, message,errors, response);
+            const rego = errors.find((error) => error.code?.startsWith('rego_'))?.code;
+            const type = rego ? REGO_ERRORS[rego] ?? RegoCompileError : CLIENT_ERRORS[code] ?? ClientError;
+            return new type(code, message, errors, response);
+        }
+
+    }
+
+    /**
+     * Places a caret under a 0-based column, keeping the tabs of the line so the caret lines up with it.
+     */
+    const caret = (line: string, index: number): string =>
+        `${line.slice(0, Math.max(0, index)).replace(/[^\t]/g, ' ')}^`;
+
+    /**
+     * `invalid_parameter`: the request was malformed, e.g. invalid JSON, a bad query parameter, or a policy that does not compile.
+     */
+    export class InvalidParameterError extends ClientError {
+    }
+
+    /**
+     * `invalid_operation`: the request is not allowed in OPA's current state, e.g. writing to a path owned by a bundle.
+     */
+    export class InvalidOperationError extends ClientError {
+    }
+
+    /**
+     * `resource_not_found`: the policy or document does not exist.
+     */
+    export class ResourceNotFoundError extends ClientError {
+    }
+
+    /**
+     * `resource_conflict`: the write conflicts with OPA's state, e.g. data that overlaps a policy's rules.
+     */
+    export class ResourceConflictError extends ClientError {
+    }
+
+    /**
+     * `unauthorized`: OPA's authentication or authorization rejected the request.
+     */
+    export class UnauthorizedError extends ClientError {
+    }
+
+    /**
+     * `internal_error`: OPA failed to handle the request, e.g. an evaluation error with `strict-builtin-errors`.
+     */
+    export class InternalError extends ClientError {
+    }
+
+    /**
+     * A policy or query failed to compile. `errors` holds one entry per problem, with its location in the source;
+     * use {@link ClientError.format} to print them.
+     */
+    export class RegoError extends InvalidParameterError {
+    }
+
+    /**
+     * `rego_parse_error`: the source is not valid Rego syntax.
+     */
+    export class RegoParseError extends RegoError {
+    }
+
+    /**
+     * `rego_compile_error` (or `rego_unsafe_var_error`, `rego_recursion_error`): the source parses but does not compile.
+     */
+    export class RegoCompileError extends RegoError {
+    }
+
+    /**
+     * `rego_type_error`: the source fails type checking, e.g. a built-in called with arguments of the wrong type.
+     */
+    export class RegoTypeError extends RegoError {
+    }
+
+    const CLIENT_ERRORS: Record<string, typeof ClientError> = {
+        invalid_parameter: InvalidParameterError,
+        invalid_operation: InvalidOperationError,
+        resource_not_found: ResourceNotFoundError,
+        resource_conflict: ResourceConflictError,
+        unauthorized: UnauthorizedError,
+        internal_error: InternalError,
+    };
+
+    const REGO_ERRORS: Record<string, typeof ClientError> = {
+        rego_parse_error: RegoParseError,
+        rego_compile_error: RegoCompileError,
+        rego_type_error: RegoTypeError,
+    };
+
+    /**
+     * Thrown when OPA cannot be reached, e.g. the connection is refused or reset. The transport's error is the `cause`.
+     * Deliberately not a {@link ClientError}: no response was received from OPA.
+     */
+    export class NetworkError extends Error {
+
+        constructor(public readonly url: string, public readonly cause: unknown) {
+            super(`OPA request failed: ${url}: ${cause instanceof Error ? cause.message : String(cause)}`);
+        }
+
+    }
+
+    /**
+     * Thrown when a request does not complete within its configured timeout.
+     * Deliberately not a {@link ClientError}: no response was received from OPA.
+     */
+    export class TimeoutError extends Error {
+
+        constructor(public readonly url: string, public readonly timeout: number) {
+            super(`OPA request timed out after ${timeout}ms: ${url}`);
+        }
+
+    }
+
+    /**
+     * Thrown in strict mode when a decision is undefined: OPA answered, but without a `result`.
+     * Deliberately not a {@link ClientError}: OPA treats an undefined document as a successful query.
+     */
+    export class UndefinedDocumentError extends Error {
+
+        /**
+         * @param path - Decision path.
+         * @param decision_id - Decision ID, when decision logging is enabled.
+         * @param defined - Whether a loaded policy defines the path (see `policy.defines`): `true` when the rule is
+         *   undefined for this input, `false` when there is no such package or rule (e.g. a typo in the path).
+         *   Absent when the policies could not be listed.
+         */
+        constructor(public readonly path: string, public readonly decision_id?: string, public readonly defined?: boolean) {
+            super(defined === false ? `No policy defines ${path}` : `Decision ${path} is undefined`);
         }
 
     }
@@ -292,17 +924,57 @@ export namespace OpenPolicyAgent {
          * @param _config.headers - Optional custom headers to include with every request.
          *   Note: Certain headers are managed internally by the client (`Accept`, `Accept-Encoding`, `Content-Type`, `Content-Encoding`).
          *   Providing these in `headers` may override internal behavior—use with caution.
+         * @param _config.retry - Optional retry policy applied to every request. Requests are not retried when omitted,
+         *   unless a call passes its own `retry` option.
+         * @param _config.timeout - Optional default timeout in milliseconds for every request, including retries.
+         *   A {@link TimeoutError} is thrown when it elapses.
+         * @param _config.fetch - Optional `fetch` implementation used as transport. Defaults to the global `fetch`.
+         * @param _config.interceptors - Optional ordered interceptor chain. The first interceptor sees the request first
+         *   and the response last. Interceptors run once per attempt.
+         * @param _config.cache - Optional decision cache for `data.get` and `data.post`. Disabled when omitted.
+         *   Writes through this client (`policy.put/delete`, `data.put/patch/delete`) invalidate affected decisions.
+         * @param _config.coalesce - Share one underlying request between concurrent identical `data.get`/`data.post` calls.
+         *   Writes are never coalesced.
+         * @param _config.failurePolicy - Default {@link FailurePolicy} for `authorize` and `allowed`. Every failure denies when omitted.
+         * @param _config.tracer - Optional {@link Tracer} (e.g., an OpenTelemetry tracer). Each request then produces a client span,
+         *   and its W3C `traceparent` is sent to OPA so OPA's own spans join the trace.
+         * @param _config.logging - Optional {@link LoggingOptions}. Each request then logs its timing, status, `decision_id`
+         *   and truncated bodies, with the configured values redacted.
+         * @param _config.audit - Optional {@link Audit.Log} that records every `data.get`/`data.post` decision, including cache hits.
+         * @param _config.strict - Throw an {@link UndefinedDocumentError} when a `data.get`/`data.post` decision is undefined,
+         *   instead of resolving without `result`. Calls can override it with the `strict` request option.
          */
         constructor(private readonly _config: {
             baseUrl: string;
-            headers?: Record<string, string>
+            headers?: Record<string, string>;
+            retry?: RetryOptions;
+            timeout?: number;
+            fetch?: typeof fetch;
+            interceptors?: Interceptor[];
+            cache?: CacheOptions;
+            coalesce?: boolean;
+            failurePolicy?: FailurePolicy;
+            tracer?: Tracer;
+            logging?: LoggingOptions;
+            audit?: Audit.Log;
+            strict?: boolean;
         } = {baseUrl: 'http://localhost:8181'}) {
             this._config = {
                 ..._config,
                 baseUrl: _config.baseUrl.replace(/\/+$/, ''),
             };
+            this.interceptors = [...(_config.interceptors ?? [])];
+            if (_config.cache) {
+                this.decisions = new DecisionCache({ttl: 1000, maxEntries: 1000, ..._config.cache});
+            }
         }
 
+        private readonly interceptors: Interceptor[];
+
+        private readonly decisions?: DecisionCache;
+
+        private readonly inflight = new Map<string, Promise<unknown>>();
+
         /**
          * Compresses a string to a gzip-encoded ReadableStream<Uint8Array>.
          * If CompressionStream is unavailable, returns the original string.
@@ -327,22 +999,26 @@ export namespace OpenPolicyAgent {
         }
 
         /**
-         * Internal fetch wrapper with auth, gzip, and error handling.
+         * Builds the outgoing request for a single attempt, before interceptors run.
          */
-        private async request<T>(
-            endpoint: string,
-            options: RequestInit = {}
-        ): Promise<T> {
-            const url = `${this._config.baseUrl}${endpoint}`;
-
-            const headers: HeadersInit = new Headers({
+        private prepare(url: string, options: RequestInit): InterceptedRequest {
+            const headers = new Headers({
                 ...this._config.headers,
                 Accept: 'application/json',
                 'Accept-Encoding': 'gzip',
                 ...options.headers,
             });
+            return {url, init: {...options, headers}};
+        }
 
-            let body = options.body;
+        /**
+         * Terminal step of the interceptor chain: compresses the body and hands the request to the transport.
+         * The body is compressed per attempt because a gzip stream can only be consumed once.
+         * Transport failures are thrown as {@link NetworkError}.
+         */
+        private transport(request: InterceptedRequest): Promise<Response> {
+            const headers = new Headers(request.init.headers);
+            let body = request.init.body;
 
             // Handle JSON body compression
             if (
@@ -358,19 +1034,342 @@ export namespace OpenPolicyAgent {
                 }
             }
 
-            const response = await fetch(url, {
-                ...options,
+            const transport = this._config.fetch ?? fetch;
+            return transport(request.url, {
+                ...request.init,
                 headers,
                 body,
                 ...(body instanceof ReadableStream ? {duplex: 'half'} : undefined),
+            } as RequestInit).catch((error) => {
+                // An aborted request surfaces the abort reason (e.g. a TimeoutError) instead
+                if (request.init.signal?.aborted) throw error;
+                throw new NetworkError(request.url, error);
+            });
+        }
+
+        /**
+         * Runs a request through the interceptor chain, in registration order, down to the transport.
+         */
+        private dispatch(request: InterceptedRequest): Promise<Response> {
+            const chain = this.interceptors.reduceRight<(request: InterceptedRequest) => Promise<Response>>(
+                (next, interceptor) => (request) => interceptor(request, next),
+                (request) => this.transport(request)
+            );
+            return chain(request);
+        }
+
+        /**
+         * Appends an interceptor to the end of the chain, after those passed in the constructor.
+         * @param interceptor - Interceptor to add.
+         * @returns The client, for chaining.
+         */
+        use(interceptor: Interceptor): this {
+            this.interceptors.push(interceptor);
+            return this;
+        }
+
+        /**
+         * Resolves the effective retry policy for a call. Non-idempotent calls get a single
+         * attempt unless the policy explicitly opts in.
+         */
+        private retryPolicy(request: RequestOptions, idempotent: boolean): Required<RetryOptions> {
+            if (request.retry === false || (!this._config.retry && !request.retry)) {
+                return {...DEFAULT_RETRY, maxAttempts: 1};
+            }
+            const policy = {...DEFAULT_RETRY, ...this._config.retry, ...request.retry};
+            if (!idempotent && !policy.retryNonIdempotent) policy.maxAttempts = 1;
+            return policy;
+        }
+
+        /**
+         * Computes the delay before the next attempt, honoring `Retry-After` when present.
+         */
+        private backoff(policy: Required<RetryOptions>, attempt: number, response?: Response): number {
+            const retryAfter = policy.respectRetryAfter ? response?.headers.get('Retry-After') : null;
+            if (retryAfter) {
+                const seconds = Number(retryAfter);
+                const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+                if (!Number.isNaN(delay)) return Math.min(Math.max(delay, 0), policy.maxDelay);
+            }
+            const delay = Math.min(policy.initialDelay * Math.pow(policy.factor, attempt - 1), policy.maxDelay);
+            switch (policy.jitter) {
+                case 'none':
+                    return delay;
+                case 'equal':
+                    return delay / 2 + Math.random() * (delay / 2);
+                default:
+                    return Math.random() * delay;
+            }
+        }
+
+        /**
+         * Logs an event when logging is enabled at its level. Fields are computed lazily, and a failing logger never fails the request.
+         */
+        private log(level: LogLevel, message: string, fields: () => Record<string, unknown>): void {
+            const logging = this._config.logging;
+            if (!logging || LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(logging.level ?? 'info')) return;
+            try {
+                logging.logger[level](message, fields());
+            } catch {
+                // Logging is best effort
+            }
+        }
+
+        /**
+         * Redacts and truncates a body for logging. JSON bodies are redacted, anything else is only truncated.
+         * With `input`, the body is the raw input document (webhook and default queries), redacted as `{input: body}`.
+         */
+        private loggable(body: unknown, input: boolean = false): string | undefined {
+            if (body === undefined || body === null || body === '') return undefined;
+            const {redact = [], maxBodyLength = 1024} = this._config.logging ?? {};
+            let value = body;
+            if (typeof value === 'string') {
+                try {
+                    value = JSON.parse(value);
+                } catch {
+                    // Not JSON: logged as text
+                }
+            }
+            const redacted = input ? Redaction.apply({input: value}, redact).input : Redaction.apply(value, redact);
+            const text = typeof value === 'string' ? value : JSON.stringify(redacted);
+            return text.length > maxBodyLength ? `${text.slice(0, maxBodyLength)}… (${text.length - maxBodyLength} more characters)` : text;
+        }
+
+        /**
+         * Redacts the `input` query parameter of a URL for logging.
+         */
+        private loggableUrl(url: string): string {
+            const parsed = new URL(url);
+            const input = parsed.searchParams.get('input');
+            const redact = this._config.logging?.redact ?? [];
+            if (input === null || !redact.length) return url;
+            try {
+                parsed.searchParams.set('input', JSON.stringify(Redaction.apply({input: JSON.parse(input)}, redact).input));
+            } catch {
+                parsed.searchParams.set('input', Redaction.REDACTED);
+            }
+            return parsed.toString();
+        }
+
+        /**
+         * Removes the `input` query parameter of a URL for span attributes. Unlike logs, spans are not redacted,
+         * so raw input never leaves the client through tracing.
+         */
+        private traceableUrl(url: string): string {
+            const parsed = new URL(url);
+            if (!parsed.searchParams.has('input')) return url;
+            parsed.searchParams.delete('input');
+            return parsed.toString();
+        }
+
+        /**
+         * Internal fetch wrapper with auth, gzip, retries, and error handling.
+         */
+        private async request<T>(
+            endpoint: string,
+            options: RequestInit = {},
+            request: RequestOptions = {},
+            idempotent: boolean = !['POST', 'PATCH'].includes(options.method ?? 'GET'),
+            parse: (text: string) => T = (text) => text ? JSON.parse(text) : {}
+        ): Promise<T> {
+            const url = `${this._config.baseUrl}${endpoint}`;
+            const policy = this.retryPolicy(request, idempotent);
+
+            // A single controller covers every attempt, so the timeout bounds the whole call including retries
+            const controller = new AbortController();
+            const signal = controller.signal;
+            const abort = () => controller.abort(request.signal?.reason);
+            if (request.signal?.aborted) abort();
+            else request.signal?.addEventListener('abort', abort, {once: true});
+            const timeout = request.timeout ?? this._config.timeout;
+            const timer = timeout ? setTimeout(() => controller.abort(new TimeoutError(url, timeout)), timeout) : undefined;
+
+            const {kind, path} = classify(endpoint);
+            const span = this._config.tracer?.startSpan(`OPA ${kind}`, {
+                kind: SPAN_KIND_CLIENT,
+                attributes: {
+                    'http.request.method': options.method ?? 'GET',
+                    'url.full': this.traceableUrl(url),
+                    'opa.endpoint': kind,
+                    ...(path !== undefined && {'opa.path': path}),
+                },
+            });
+            const context = span?.spanContext();
+            // An all-zero trace ID is OpenTelemetry's non-recording span: there is no trace to join
+            const traceparent = context && !/^0*$/.test(context.traceId)
+                ? `00-${context.traceId}-${context.spanId}-${(context.traceFlags & 0xff).toString(16).padStart(2, '0')}`
+                : undefined;
+
+            const started = Date.now();
+            const fields = () => ({
+                method: options.method ?? 'GET',
+                url: this.loggableUrl(url),
+                endpoint: kind,
+                ...(path !== undefined && {path}),
             });
+            let attempts = 0;
+            let status: number | undefined;
+
+            try {
+                for (let attempt = 1; ; attempt++) {
+                    signal.throwIfAborted();
+                    attempts = attempt;
+                    span?.setAttribute('opa.attempts', attempt);
+                    this.log('debug', 'OPA request', () => ({...fields(), attempt, body: this.loggable(options.body, kind === 'v0' || kind === 'root')}));
+                    let response: Response;
+                    try {
+                        const prepared = this.prepare(url, {...options, signal});
+                        if (traceparent && !prepared.init.headers.has('traceparent')) prepared.init.headers.set('traceparent', traceparent);
+                        response = await this.dispatch(prepared);
+                    } catch (error) {
+                        // Errors thrown by interceptors are not transient and are rethrown as-is
+                        if (!(error instanceof NetworkError) || signal.aborted || attempt >= policy.maxAttempts || !policy.retryOnNetworkError) throw error;
+                        const wait = this.backoff(policy, attempt);
+                        this.log('warn', 'OPA request retry', () => ({...fields(), attempt, error: (error as Error)?.message ?? String(error), delay_ms: wait}));
+                        await delay(wait, signal);
+                        continue;
+                    }
+
+                    status = response.status;
+                    span?.setAttribute('http.response.status_code', response.status);
+                    if (!response.ok) {
+                        if (attempt < policy.maxAttempts && policy.retryOn.includes(response.status)) {
+                            await response.body?.cancel();
+                            const wait = this.backoff(policy, attempt, response);
+                            this.log('warn', 'OPA request retry', () => ({...fields(), attempt, status: response.status, delay_ms: wait}));
+                            await delay(wait, signal);
+                            continue;
+                        }
+                        throw await ClientError.fromResponse(response);
+                    }
+
+                    const text = await response.text();
+                    const result = parse(text);
+                    this.log('info', 'OPA response', () => {
+                        const decision_id = result && typeof result === 'object' ? (result as GetDataResponse).decision_id : undefined;
+                        return {
+                            ...fields(),
+                            status: response.status,
+                            duration_ms: Date.now() - started,
+                            attempts: attempt,
+                            ...(decision_id !== undefined && {decision_id}),
+                            body: this.loggable(text),
+                        };
+                    });
+                    if (span && result && typeof result === 'object') {
+                        const {decision_id, metrics} = result as GetDataResponse;
+                        if (typeof decision_id === 'string') span.setAttribute('opa.decision_id', decision_id);
+                        for (const [key, value] of Object.entries(metrics ?? {})) {
+                            if (typeof value === 'number') span.setAttribute(`opa.metrics.${key}`, value);
+                        }
+                    }
+                    return result;
+                }
+            } catch (error) {
+                const thrown = signal.aborted ? signal.reason : error;
+                this.log('error', 'OPA request failed', () => ({
+                    ...fields(),
+                    ...(status !== undefined && {status}),
+                    ...(thrown instanceof ClientError && {code: thrown.code}),
+                    error: thrown instanceof Error ? thrown.message : String(thrown),
+                    duration_ms: Date.now() - started,
+                    attempts,
+                }));
+                if (span) {
+                    span.recordException(thrown instanceof Error ? thrown : String(thrown));
+                    span.setStatus({code: SPAN_STATUS_ERROR, message: thrown instanceof Error ? thrown.message : String(thrown)});
+                    span.setAttribute('error.type', thrown instanceof ClientError ? thrown.code : thrown instanceof Error ? thrown.constructor.name : 'unknown');
+                }
+                throw thrown;
+            } finally {
+                clearTimeout(timer);
+                request.signal?.removeEventListener('abort', abort);
+                span?.end();
+            }
+        }
+
+        /**
+         * Evaluates a read-only decision through the decision cache and in-flight coalescing, when enabled.
+         * A coalesced request runs without the caller's `signal` and `timeout`; those only bound each caller's wait.
+         */
+        private async evaluate<T>(
+            path: string,
+            input: Document,
+            options: object,
+            request: RequestOptions = {},
+            load: (request: RequestOptions) => Promise<T>
+        ): Promise<Evaluated<T>> {
+            if (!this.decisions && !this._config.coalesce) return {value: await load(request)};
+
+            const key = DecisionCache.key(path, input, options);
+            const cache = request.cache !== false ? this.decisions : undefined;
+            const hit = cache?.get(key);
+            if (hit !== undefined) return {value: hit as T, reused: 'cache'};
+            const generation = cache?.generation ?? 0;
+
+            let value: T;
+            let reused: Evaluated<T>['reused'];
+            if (this._config.coalesce) {
+                // An aborted caller would never wait for the shared request, leaving its failure unhandled
+                if (request.signal?.aborted) throw request.signal.reason;
+                let shared = this.inflight.get(key) as Promise<T> | undefined;
+                if (shared) {
+                    reused = 'coalesced';
+                } else {
+                    shared = load({...request, signal: undefined, timeout: undefined})
+                        .finally(() => this.inflight.delete(key));
+                    this.inflight.set(key, shared);
+                }
+                value = await waitFor(shared, `${this._config.baseUrl}/v1/data/${path}`, request.signal, request.timeout);
+            } else {
+                value = await load(request);
+            }
+
+            cache?.set(key, path, value, generation);
+            return {value, ...(reused && {reused})};
+        }
+
+        /**
+         * Invalidates cached decisions once a write settles. Without a path (policy changes) the whole cache is
+         * cleared, as a module may define rules anywhere in the document tree.
+         */
+        private invalidating<T>(path: string | undefined, write: Promise<T>): Promise<T> {
+            return write.finally(() => {
+                if (path === undefined) this.decisions?.clear();
+                else this.decisions?.invalidate(path, true);
+            });
+        }
 
-            if (!response.ok) {
-                throw await ClientError.fromResponse(response);
-            }
+        /**
+         * Records a decision in the audit log once it resolves. Failed evaluations are not recorded.
+         */
+        private audited<T extends GetDataResponse<any>>(path: string, input: Document | undefined, request: RequestOptions | undefined, decision: Promise<Evaluated<T>>): Promise<T> {
+            const audit = this._config.audit;
+            if (!audit || request?.audit === false) return decision.then(({value}) => value);
+            const timestamp = new Date().toISOString();
+            return decision.then(({value: response, reused}) => {
+                audit.record({
+                    timestamp,
+                    path,
+                    ...(input !== undefined && {input}),
+                    ...('result' in response && {result: response.result}),
+                    ...(response.decision_id !== undefined && {decision_id: response.decision_id}),
+                    ...(reused && {reused}),
+                    ...(request?.audit && {context: request.audit}),
+                });
+                return response;
+            });
+        }
 
-            const text = await response.text();
-            return text ? (JSON.parse(text) as T) : ({} as T);
+        /**
+         * In strict mode, rejects an undefined decision with an {@link UndefinedDocumentError}, after checking
+         * through `policy.defines` whether the path exists at all.
+         */
+        private async strict<T extends GetDataResponse<any>>(path: string, request: RequestOptions | undefined, decision: Promise<T>): Promise<T> {
+            const response = await decision;
+            if (response.result !== undefined || !(request?.strict ?? this._config.strict)) return response;
+            const defined = await this.policy.defines(Path.decode(path), request).catch(() => undefined);
+            throw new UndefinedDocumentError(path, response.decision_id, defined);
         }
 
         // =============================================================================
@@ -379,15 +1378,15 @@ export namespace OpenPolicyAgent {
 
         readonly policy: PolicyAPI = {
 
-            list: (): Promise<ListPoliciesResponse> => {
-                return this.request('/v1/policies');
+            list: (request?: RequestOptions): Promise<ListPoliciesResponse> => {
+                return this.request('/v1/policies', {}, request);
             },
 
 
-            get: (id: string, pretty: boolean = false): Promise<GetPolicyResponse> => {
+            get: (id: string, pretty: boolean = false, request?: RequestOptions): Promise<GetPolicyResponse> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
-                return this.request(`/v1/policies/${encodeURIComponent(id)}?${params}`);
+                return this.request(`/v1/policies/${encodeURIComponent(id)}?${params}`, {}, request);
             },
 
 
@@ -395,16 +1394,17 @@ export namespace OpenPolicyAgent {
                 id: string,
                 rego: string,
                 pretty: boolean = false,
-                metrics: boolean = false
+                metrics: boolean = false,
+                request?: RequestOptions
             ): Promise<Record<string, never>> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
                 if (metrics) params.set('metrics', 'true');
-                return this.request(`/v1/policies/${encodeURIComponent(id)}?${params}`, {
+                return this.invalidating(undefined, this.request(`/v1/policies/${encodeURIComponent(id)}?${params}`, {
                     method: 'PUT',
                     headers: {'Content-Type': 'text/plain'},
                     body: rego,
-                });
+                }, request));
             },
             create: (...args) => this.policy.put(...args),
             update: (...args) => this.policy.put(...args),
@@ -413,14 +1413,22 @@ export namespace OpenPolicyAgent {
             delete: (
                 id: string,
                 pretty: boolean = false,
-                metrics: boolean = false
+                metrics: boolean = false,
+                request?: RequestOptions
             ): Promise<Record<string, never>> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
                 if (metrics) params.set('metrics', 'true');
-                return this.request(`/v1/policies/${encodeURIComponent(id)}?${params}`, {
+                return this.invalidating(undefined, this.request(`/v1/policies/${encodeURIComponent(id)}?${params}`, {
                     method: 'DELETE',
-                });
+                }, request));
+            },
+
+
+            defines: async (path: Path.Like, request?: RequestOptions): Promise<boolean> => {
+                const target = Path.segments(path);
+                const {result} = await this.policy.list(request);
+                return result.some((module) => moduleDefines(module, target));
             },
         };
 
@@ -429,8 +1437,8 @@ export namespace OpenPolicyAgent {
         // =============================================================================
 
         readonly data: DataAPI = {
-            get: <T = Document>(
-                path: string,
+            get: async <T = Document>(
+                path: Path.Like,
                 options: {
                     /**
                      * Provide an input document. Format is a JSON value that will be used as the value for the input document.
@@ -460,7 +1468,8 @@ export namespace OpenPolicyAgent {
                      * Treat built-in function call errors as fatal and return an error immediately.
                      */
                     strictBuiltinErrors?: boolean;
-                } = {}
+                } = {},
+                request?: RequestOptions
             ): Promise<GetDataResponse<T>> => {
                 const params = new URLSearchParams();
                 if (options.input !== undefined) {
@@ -473,10 +1482,14 @@ export namespace OpenPolicyAgent {
                 if (options.instrument) params.set('instrument', 'true');
                 if (options.strictBuiltinErrors) params.set('strict-builtin-errors', 'true');
 
-                return this.request(`/v1/data/${path}?${params}`);
+                const {input, ...flags} = options;
+                const encoded = Path.encode(path);
+                return this.strict(encoded, request, this.audited(encoded, input, request, this.evaluate(encoded, input, flags, request, (request) =>
+                    this.request(`/v1/data/${encoded}?${params}`, {}, request)
+                )));
             },
-            post: <T = Document>(
-                path: string,
+            post: async <T = Document>(
+                path: Path.Like,
                 body: { input?: Document },
                 options: {
                     pretty?: boolean;
@@ -485,7 +1498,8 @@ export namespace OpenPolicyAgent {
                     metrics?: boolean;
                     instrument?: boolean;
                     strictBuiltinErrors?: boolean;
-                } = {}
+                } = {},
+                request?: RequestOptions
             ): Promise<GetDataResponse<T>> => {
                 const params = new URLSearchParams();
                 if (options.pretty) params.set('pretty', 'true');
@@ -495,35 +1509,40 @@ export namespace OpenPolicyAgent {
                 if (options.instrument) params.set('instrument', 'true');
                 if (options.strictBuiltinErrors) params.set('strict-builtin-errors', 'true');
 
-                return this.request(`/v1/data/${path}?${params}`, {
-                    method: 'POST',
-                    body: JSON.stringify(body),
-                    headers: {
-                        'Content-Type': 'application/json',
-                    }
-                });
+                const encoded = Path.encode(path);
+                return this.strict(encoded, request, this.audited(encoded, body.input, request, this.evaluate(encoded, body.input, options, request, (request) =>
+                    this.request(`/v1/data/${encoded}?${params}`, {
+                        method: 'POST',
+                        body: JSON.stringify(body),
+                        headers: {
+                            'Content-Type': 'application/json',
+                        }
+                    }, request, true)
+                )));
             },
-            webhook: <T = any>(
-                path: string,
+            webhook: async <T = any>(
+                path: Path.Like,
                 input: Document = {},
-                pretty: boolean = false
+                pretty: boolean = false,
+                request?: RequestOptions
             ): Promise<T> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
-                return this.request(`/v0/data/${path}?${params}`, {
+                return this.request(`/v0/data/${Path.encode(path)}?${params}`, {
                     method: 'POST',
                     body: JSON.stringify(input),
                     headers: {
                         'Content-Type': 'application/json',
                     }
-                });
+                }, request, true);
             },
 
-            put: (
-                path: string,
+            put: async (
+                path: Path.Like,
                 document: Document,
                 ifNoneMatch: boolean = false,
-                metrics: boolean = false
+                metrics: boolean = false,
+                request?: RequestOptions
             ): Promise<void> => {
                 const params = new URLSearchParams();
                 if (metrics) params.set('metrics', 'true');
@@ -533,37 +1552,116 @@ export namespace OpenPolicyAgent {
                 };
                 if (ifNoneMatch) headers['If-None-Match'] = '*';
 
-                return this.request(`/v1/data/${path}?${params}`, {
+                const encoded = Path.encode(path);
+                return this.invalidating(encoded, this.request(`/v1/data/${encoded}?${params}`, {
                     method: 'PUT',
                     headers,
                     body: JSON.stringify(document),
-                });
+                }, request));
             },
 
-            patch: (path: string, operations: any[]): Promise<void> => {
-                return this.request(`/v1/data/${path}`, {
+            patch: async (path: Path.Like, operations: Patch.Operation[], request?: RequestOptions): Promise<void> => {
+                const encoded = Path.encode(path);
+                return this.invalidating(encoded, this.request(`/v1/data/${encoded}`, {
                     method: 'PATCH',
                     headers: {'Content-Type': 'application/json-patch+json'},
                     body: JSON.stringify(operations),
-                });
+                }, request));
+            },
+
+            update: async <T = Document>(
+                path: Path.Like,
+                mutator: (document: T) => T | void | Promise<T | void>,
+                request?: RequestOptions
+            ): Promise<Patch.Operation[]> => {
+                const {result} = await this.data.get<T>(path, {}, {...request, cache: false, audit: false, strict: false});
+                const draft = structuredClone(result) as T;
+                const returned = await mutator(draft);
+                const next = returned === undefined ? draft : returned;
+
+                const operations = Patch.diff(result, next);
+                if (operations.length === 1 && operations[0].path === '') await this.data.put(path, next, false, false, request);
+                else if (operations.length) await this.data.patch(path, operations, request);
+                return operations;
             },
 
-            delete: (path: string, metrics: boolean = false): Promise<void> => {
+            delete: async (path: Path.Like, metrics: boolean = false, request?: RequestOptions): Promise<void> => {
                 const params = new URLSearchParams();
                 if (metrics) params.set('metrics', 'true');
-                return this.request(`/v1/data/${path}?${params}`, {
+                const encoded = Path.encode(path);
+                return this.invalidating(encoded, this.request(`/v1/data/${encoded}?${params}`, {
                     method: 'DELETE',
-                });
+                }, request));
             },
         };
 
+        // =============================================================================
+        // Decisions
+        // =============================================================================
+
+        /**
+         * Evaluates a boolean decision with `data.post` and resolves every failure through the failure policy,
+         * so callers never have to interpret undefined documents or errors themselves. Fails closed by default.
+         * @param path - Decision path (e.g., 'authz/allow').
+         * @param input - Input document.
+         * @param options - Failure policy and per-call request options.
+         * @returns A structured decision. Only rejects for failures whose mode is `throw`, or when the call is aborted.
+         */
+        async authorize<T = unknown>(path: Path.Like, input?: Document, options: AuthorizeOptions = {}): Promise<Decision<T>> {
+            const {failure, strictBuiltinErrors, ...request} = options;
+            // Parsed up front so an invalid path throws instead of resolving as a network error
+            const target = Path.segments(path);
+            const policy: Required<FailurePolicy> = {
+                network: 'closed',
+                clientError: 'closed',
+                undefined: 'closed',
+                typeMismatch: 'closed',
+                ...this._config.failurePolicy,
+                ...failure,
+            };
+            const resolve = (mode: FailMode, reason: Decision['reason'], error: unknown, rest: Partial<Decision<T>> = {}): Decision<T> => {
+                if (mode === 'throw') throw error;
+                return {allowed: mode === 'open', reason, error, ...rest};
+            };
+
+            let response: GetDataResponse<T>;
+            try {
+                response = await this.data.post<T>(target, {input}, {strictBuiltinErrors}, request);
+            } catch (error) {
+                if (request.signal?.aborted) throw error;
+                if (error instanceof UndefinedDocumentError) return resolve(policy.undefined, 'undefined', error, {decision_id: error.decision_id});
+                return error instanceof ClientError
+                    ? resolve(policy.clientError, 'client_error', error)
+                    : resolve(policy.network, 'network_error', error);
+            }
+
+            const {result, decision_id} = response;
+            if (result === undefined) {
+                return resolve(policy.undefined, 'undefined', new TypeError(`Decision ${Path.encode(target)} is undefined`), {decision_id});
+            }
+            if (typeof result !== 'boolean') {
+                return resolve(policy.typeMismatch, 'type_mismatch', new TypeError(`Decision ${Path.encode(target)} is not a boolean`), {decision_id, result});
+            }
+            return {allowed: result, reason: result ? 'allowed' : 'denied', decision_id, result};
+        }
+
+        /**
+         * Shorthand for {@link Client.authorize} that only returns whether the caller may proceed.
+         * @param path - Decision path (e.g., 'authz/allow').
+         * @param input - Input document.
+         * @param options - Failure policy and per-call request options.
+         */
+        async allowed(path: Path.Like, input?: Document, options?: AuthorizeOptions): Promise<boolean> {
+            return (await this.authorize(path, input, options)).allowed;
+        }
+
         // =============================================================================
         // Query API
         // =============================================================================
 
         readonly query: QueryAPI = {
 
-            default: <T = any>(input: Document, pretty: boolean = false): Promise<T> => {
+            default: <T = any>(input: Document, pretty: boolean = false, request?: RequestOptions): Promise<T> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
                 return this.request(`/?${params}`, {
@@ -572,7 +1670,7 @@ export namespace OpenPolicyAgent {
                     headers: {
                         "Content-Type": "application/json",
                     }
-                });
+                }, request, true);
             },
 
             adhoc: (
@@ -580,7 +1678,8 @@ export namespace OpenPolicyAgent {
                 input?: Document,
                 pretty: boolean = false,
                 explain?: 'notes' | 'fails' | 'full' | 'debug',
-                metrics: boolean = false
+                metrics: boolean = false,
+                request?: RequestOptions
             ): Promise<ExecuteAdHocQueryResponse> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
@@ -593,7 +1692,7 @@ export namespace OpenPolicyAgent {
                     headers: {
                         "Content-Type": "application/json",
                     }
-                });
+                }, request, true);
             },
         };
 
@@ -607,7 +1706,8 @@ export namespace OpenPolicyAgent {
                 pretty: boolean = false,
                 explain?: 'notes' | 'fails' | 'full' | 'debug',
                 metrics: boolean = false,
-                instrument: boolean = false
+                instrument: boolean = false,
+                request?: RequestOptions
             ): Promise<PartialEvalResponse> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
@@ -621,18 +1721,35 @@ export namespace OpenPolicyAgent {
                     headers: {
                         "Content-Type": "application/json",
                     }
-                });
+                }, request, true);
             },
-            filter: (
-                path: string,
+            filter: async (
+                path: Path.Like,
                 req: CompileFilterRequest,
-                accept: string
+                accept: string,
+                request?: RequestOptions
             ): Promise<CompileFilterResponse> => {
-                return this.request(`/v1/compile/${path}`, {
+                return this.request(`/v1/compile/${Path.encode(path)}`, {
                     method: 'POST',
                     headers: {Accept: accept, 'Content-Type': 'application/json'},
                     body: JSON.stringify(req),
-                });
+                }, request, true);
+            },
+        };
+
+        // =============================================================================
+        // Decision Cache
+        // =============================================================================
+
+        readonly cache: CacheAPI = {
+            invalidate: (pathPrefix: Path.Like): number => {
+                return this.decisions?.invalidate(Path.encode(pathPrefix)) ?? 0;
+            },
+            clear: (): void => {
+                this.decisions?.clear();
+            },
+            stats: (): CacheStats => {
+                return this.decisions?.stats() ?? {hits: 0, misses: 0, evictions: 0, size: 0};
             },
         };
 
@@ -644,7 +1761,8 @@ export namespace OpenPolicyAgent {
             check: (
                 bundles: boolean = false,
                 plugins: boolean = false,
-                excludePlugin?: string | string[]
+                excludePlugin?: string | string[],
+                request?: RequestOptions
             ): Promise<void> => {
                 const params = new URLSearchParams();
                 if (bundles) params.set('bundles', 'true');
@@ -653,10 +1771,10 @@ export namespace OpenPolicyAgent {
                     const plugins = Array.isArray(excludePlugin) ? excludePlugin : [excludePlugin];
                     plugins.forEach((p) => params.append('exclude-plugin', p));
                 }
-                return this.request(`/health?${params}`);
+                return this.request(`/health?${params}`, {}, request);
             },
-            custom: (name: string): Promise<void> => {
-                return this.request(`/health/${name}`);
+            custom: (name: string, request?: RequestOptions): Promise<void> => {
+                return this.request(`/health/${name}`, {}, request);
             },
         };
 
@@ -664,12 +1782,13 @@ export namespace OpenPolicyAgent {
             /**
              * Retrieves OPA's active configuration (sensitive fields omitted).
              * @param pretty - Format response for humans.
+             * @param request - Per-call request options.
              * @see https://www.openpolicyagent.org/docs/latest/rest-api/#config-api
              */
-            get: (pretty: boolean = false): Promise<GetConfigResponse> => {
+            get: (pretty: boolean = false, request?: RequestOptions): Promise<GetConfigResponse> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
-                return this.request(`/v1/config?${params}`);
+                return this.request(`/v1/config?${params}`, {}, request);
             },
         };
 
@@ -677,12 +1796,24 @@ export namespace OpenPolicyAgent {
             /**
              * Retrieves OPA's operational status.
              * @param pretty - Format response for humans.
+             * @param request - Per-call request options.
              * @see https://www.openpolicyagent.org/docs/latest/rest-api/#status-api
              */
-            get: (pretty: boolean = false): Promise<GetStatusResponse> => {
+            get: (pretty: boolean = false, request?: RequestOptions): Promise<GetStatusResponse> => {
                 const params = new URLSearchParams();
                 if (pretty) params.set('pretty', 'true');
-                return this.request(`/v1/status?${params}`);
+                return this.request(`/v1/status?${params}`, {}, request);
+            },
+        };
+
+        readonly metrics: MetricsAPI = {
+            /**
+             * Fetches and parses OPA's Prometheus metrics.
+             * @param request - Per-call request options.
+             * @see https://www.openpolicyagent.org/docs/latest/monitoring/#prometheus
+             */
+            get: (request?: RequestOptions): Promise<Prometheus.Families> => {
+                return this.request('/metrics', {headers: {Accept: 'text/plain; version=0.0.4'}}, request, true, Prometheus.parse);
             },
         };
     }
@@ -715,14 +1846,85 @@ export namespace OpenPolicyAgent {
         /**
          * If query metrics are enabled, this field contains query performance metrics collected during the parse, compile, and evaluation steps.
          */
-        metrics?: Record<string, number>;
+        metrics?: Metrics;
         /**
          *  If decision logging is enabled, this field contains a string that uniquely identifies the decision. The identifier will be included in the decision log event for this decision. Callers can use the identifier for correlation purposes.
          */
         decision_id?: string;
         provenance?: ProvenanceInfo;
+        /**
+         * Evaluation trace, when `explain` is set. Render it with `Explain.render`.
+         */
+        explanation?: Explanation;
+    }
+
+    /**
+     * Timers reported with `metrics`, in nanoseconds. `instrument` adds the `timer_eval_op_*` timers.
+     * @see https://www.openpolicyagent.org/docs/latest/rest-api/#performance-metrics
+     */
+    export type MetricTimer =
+        | 'timer_server_handler_ns'
+        | 'timer_rego_input_parse_ns'
+        | 'timer_rego_query_parse_ns'
+        | 'timer_rego_query_compile_ns'
+        | 'timer_rego_query_eval_ns'
+        | 'timer_rego_partial_eval_ns'
+        | 'timer_rego_module_parse_ns'
+        | 'timer_rego_module_compile_ns'
+        | 'timer_rego_external_resolve_ns'
+        | 'timer_rego_data_parse_ns'
+        | 'timer_eval_op_plug_ns'
+        | 'timer_eval_op_resolve_ns'
+        | 'timer_eval_op_rule_index_ns'
+        | 'timer_eval_op_builtin_call_ns'
+        | 'timer_eval_op_virtual_cache_lookup_ns'
+        | 'timer_eval_op_base_cache_lookup_ns'
+        | 'timer_eval_op_comprehension_cache_build_ns'
+        | 'timer_eval_op_comprehension_cache_lookup_ns'
+        | 'timer_query_compile_stage_check_types_ns'
+        | 'timer_query_compile_stage_resolve_refs_ns'
+        | 'timer_query_compile_stage_rewrite_to_capture_value_ns';
+
+    /**
+     * Counters reported with `metrics` and `instrument`.
+     */
+    export type MetricCounter =
+        | 'counter_server_query_cache_hit'
+        | 'counter_eval_op_virtual_cache_hit'
+        | 'counter_eval_op_virtual_cache_miss'
+        | 'counter_eval_op_base_cache_hit'
+        | 'counter_eval_op_base_cache_miss'
+        | 'counter_eval_op_comprehension_cache_skip'
+        | 'counter_eval_op_comprehension_cache_build'
+        | 'counter_eval_op_comprehension_cache_hit'
+        | 'counter_eval_op_comprehension_cache_miss'
+        | 'counter_rego_builtin_http_send_interquery_cache_hits'
+        | 'counter_disk_read_keys'
+        | 'counter_disk_read_bytes';
+
+    /**
+     * Distribution of an instrumented operation, reported as `histogram_*` with `instrument`.
+     */
+    export interface MetricHistogram {
+        count: number;
+        min: number;
+        max: number;
+        mean: number;
+        median: number;
+        stddev: number;
+        '75%': number;
+        '90%': number;
+        '95%': number;
+        '99%': number;
+        '99.9%': number;
+        '99.99%': number;
     }
 
+    /**
+     * Metrics of one evaluation. Unknown keys (newer OPA versions, custom builtins) are kept.
+     */
+    export type Metrics = { [K in MetricTimer | MetricCounter]?: number } & Record<string, number | MetricHistogram>;
+
     export interface ProvenanceInfo {
         version: string;
         build_commit: string;
@@ -733,8 +1935,8 @@ export namespace OpenPolicyAgent {
 
     export interface ExecuteAdHocQueryResponse {
         result: Record<string, any>[];
-        metrics?: Record<string, number>;
-        explanation?: any[];
+        metrics?: Metrics;
+        explanation?: Explanation;
     }
 
     export interface PartialEvalRequest {
@@ -749,6 +1951,90 @@ export namespace OpenPolicyAgent {
 
     export interface PartialEvalResponse {
         result: PartialEvalQueries | Record<string, never>;
+        metrics?: Metrics;
+        explanation?: Explanation;
+    }
+
+    /**
+     * Evaluation trace returned with `explain`: trace events, or the lines of the pretty trace when `pretty` is set.
+     */
+    export type Explanation = TraceEvent[] | string[];
+
+    export type TraceOp =
+        'Enter' | 'Exit' | 'Eval' | 'Redo' | 'Fail' | 'Save' | 'Index' | 'Note' | 'Unify' | 'Duplicate' | 'Wildcard' | (string & {});
+
+    /**
+     * One step of an evaluation trace.
+     * @see https://www.openpolicyagent.org/docs/latest/rest-api/#explanations
+     */
+    export interface TraceEvent {
+        op: TraceOp;
+        query_id: number;
+        parent_id: number;
+        /**
+         * Kind of `node`.
+         */
+        type: 'expr' | 'rule' | 'body' | (string & {});
+        node: AstExpr | AstRule | AstExpr[];
+        /**
+         * Variable bindings at this step.
+         */
+        locals?: { key: AstTerm, value: AstTerm }[];
+        location?: AstLocation;
+        /**
+         * Text of a `Note` event (`trace(...)` calls), or details such as the number of rules matched by `Index`.
+         */
+        message?: string;
+    }
+
+    /**
+     * Source location. `file` is the policy ID for policies loaded through the Policy API, and empty for the query.
+     */
+    export interface AstLocation {
+        file?: string;
+        row: number;
+        col: number;
+    }
+
+    /**
+     * A Rego term in OPA's JSON AST form.
+     */
+    export interface AstTerm {
+        type: 'null' | 'boolean' | 'number' | 'string' | 'var' | 'ref' | 'array' | 'set' | 'object' | 'call'
+            | 'arraycomprehension' | 'setcomprehension' | 'objectcomprehension' | (string & {});
+        value: any;
+        location?: AstLocation;
+    }
+
+    /**
+     * A Rego expression in OPA's JSON AST form. `terms` is a single term, the operator and operands of a call,
+     * or a `some`/`every` declaration.
+     */
+    export interface AstExpr {
+        index: number;
+        terms: AstTerm | AstTerm[] | { symbols: AstTerm[] } | { key?: AstTerm, value: AstTerm, domain: AstTerm, body: AstExpr[] };
+        negated?: boolean;
+        with?: { target: AstTerm, value: AstTerm }[];
+        generated?: boolean;
+        location?: AstLocation;
+    }
+
+    /**
+     * A Rego rule in OPA's JSON AST form.
+     */
+    export interface AstRule {
+        head: {
+            name?: string;
+            ref?: AstTerm[];
+            args?: AstTerm[];
+            key?: AstTerm;
+            value?: AstTerm;
+            assign?: boolean;
+        };
+        body: AstExpr[];
+        default?: boolean;
+        else?: AstRule;
+        location?: AstLocation;
     }
 
     export interface PartialEvalQueries {
@@ -773,18 +2059,430 @@ export namespace OpenPolicyAgent {
     }
 
     export interface GetConfigResponse {
-        result: Record<string, any>;
+        result: Configuration;
     }
 
-    export interface GetStatusResponse {
-        result: {
-            labels: Record<string, string>;
-            bundles?: Record<string, any>;
-            plugins?: Record<string, { state: string }>;
-            metrics?: Record<string, any>;
+    /**
+     * OPA's configuration file, as accepted by `opa run --config-file` and returned (without secrets) by the Config API.
+     * @see https://www.openpolicyagent.org/docs/latest/configuration/
+     */
+    export interface Configuration {
+        /**
+         * Remote services, keyed by name, or as a list of services with a `name`.
+         */
+        services?: Record<string, ServiceConfig> | (ServiceConfig & { name: string })[];
+        labels?: Record<string, string>;
+        /**
+         * Keys used to verify bundle signatures, keyed by key ID.
+         */
+        keys?: Record<string, KeyConfig>;
+        /**
+         * Query path used by the `POST /` endpoint. @default '/system/main'
+         */
+        default_decision?: string;
+        /**
+         * Query path of the server authorization policy. @default '/system/authz/allow'
+         */
+        default_authorization_decision?: string;
+        bundles?: Record<string, BundleConfig>;
+        decision_logs?: DecisionLogsConfig;
+        status?: StatusConfig;
+        discovery?: DiscoveryConfig;
+        caching?: CachingConfig;
+        distributed_tracing?: DistributedTracingConfig;
+        server?: ServerConfig;
+        storage?: {
+            disk?: {
+                directory: string;
+                auto_create?: boolean;
+                partitions?: string[];
+                badger?: string;
+            };
+        };
+        persistence_directory?: string;
+        nd_builtin_cache?: boolean;
+        /**
+         * Configuration of custom plugins, keyed by plugin name.
+         */
+        plugins?: Record<string, unknown>;
+    }
+
+    export interface ServiceConfig {
+        url: string;
+        headers?: Record<string, string>;
+        allow_insecure_tls?: boolean;
+        response_header_timeout_seconds?: number;
+        tls?: {
+            ca_cert?: string;
+            system_ca_required?: boolean;
+        };
+        /**
+         * At most one credential type per service.
+         */
+        credentials?: ServiceCredentials;
+    }
+
+    export interface ServiceCredentials {
+        bearer?: {
+            token?: string;
+            token_path?: string;
+            /**
+             * @default 'Bearer'
+             */
+            scheme?: string;
+        };
+        oauth2?: {
+            token_url: string;
+            grant_type?: 'client_credentials' | 'jwt_bearer';
+            client_id?: string;
+            client_secret?: string;
+            signing_key?: string;
+            thumbprint?: string;
+            scopes?: string[];
+            additional_headers?: Record<string, string>;
+            additional_parameters?: Record<string, string>;
+            additional_claims?: Record<string, unknown>;
+            include_jti_claim?: boolean;
+        };
+        client_tls?: {
+            cert: string;
+            private_key: string;
+            private_key_passphrase?: string;
+        };
+        s3_signing?: {
+            environment_credentials?: Record<string, never>;
+            metadata_credentials?: {
+                aws_region?: string;
+                iam_role?: string;
+                service?: string;
+            };
+            web_identity_credentials?: {
+                aws_region?: string;
+                session_name?: string;
+            };
+            profile_credentials?: {
+                path?: string;
+                profile?: string;
+                aws_region?: string;
+            };
+            service?: string;
+            signature_version?: '4' | '4a';
+        };
+        gcp_metadata?: {
+            audience?: string;
+            scopes?: string[];
+            endpoint?: string;
+            access_token_path?: string;
+            id_token_path?: string;
+        };
+        azure_managed_identity?: {
+            endpoint?: string;
+            api_version?: string;
+            resource?: string;
+            object_id?: string;
+            client_id?: string;
+            mi_res_id?: string;
+        };
+        /**
+         * Name of a custom credentials plugin.
+         */
+        plugin?: string;
+    }
+
+    export interface KeyConfig {
+        /**
+         * PEM-encoded public key, or the shared secret for HMAC algorithms.
+         */
+        key?: string;
+        private_key?: string;
+        /**
+         * @default 'RS256'
+         */
+        algorithm?: string;
+        scope?: string;
+    }
+
+    export interface PollingConfig {
+        min_delay_seconds?: number;
+        max_delay_seconds?: number;
+        long_polling_timeout_seconds?: number;
+    }
+
+    export interface SigningConfig {
+        /**
+         * Key ID in {@link Configuration.keys}.
+         */
+        keyid?: string;
+        scope?: string;
+        exclude_files?: string[];
+    }
+
+    export interface BundleConfig {
+        /**
+         * Service in {@link Configuration.services}. Optional when `resource` is a `file://` URL.
+         */
+        service?: string;
+        resource?: string;
+        signing?: SigningConfig;
+        persist?: boolean;
+        polling?: PollingConfig;
+        trigger?: 'periodic' | 'manual';
+        size_limit_bytes?: number;
+    }
+
+    export interface DiscoveryConfig extends BundleConfig {
+        /**
+         * Path of the discovery decision inside the bundle.
+         */
+        decision?: string;
+    }
+
+    export interface DecisionLogsConfig {
+        service?: string;
+        resource?: string;
+        partition_name?: string;
+        reporting?: {
+            buffer_type?: 'size' | 'event';
+            buffer_size_limit_bytes?: number;
+            buffer_size_limit_events?: number;
+            upload_size_limit_bytes?: number;
+            min_delay_seconds?: number;
+            max_delay_seconds?: number;
+            trigger?: 'periodic' | 'manual';
+        };
+        request_context?: {
+            http?: {
+                headers?: string[];
+            };
+        };
+        mask_decision?: string;
+        drop_decision?: string;
+        console?: boolean;
+        /**
+         * Name of a custom plugin in {@link Configuration.plugins} that receives the events.
+         */
+        plugin?: string;
+    }
+
+    export interface StatusConfig {
+        service?: string;
+        partition_name?: string;
+        console?: boolean;
+        prometheus?: boolean;
+        prometheus_config?: {
+            collectors?: {
+                bundle_loading_duration_ns?: {
+                    buckets?: number[];
+                };
+            };
+        };
+        plugin?: string;
+        trigger?: 'periodic' | 'manual';
+    }
+
+    export interface CachingConfig {
+        inter_query_builtin_cache?: {
+            max_size_bytes?: number;
+            forced_eviction_threshold_percentage?: number;
+            stale_entry_eviction_period_seconds?: number;
+        };
+        inter_query_builtin_value_cache?: {
+            max_num_entries?: number;
+        };
+    }
+
+    export interface DistributedTracingConfig {
+        type?: 'grpc' | 'http';
+        address?: string;
+        service_name?: string;
+        sample_percentage?: number;
+        encryption?: 'off' | 'tls' | 'mtls';
+        allow_insecure_tls?: boolean;
+        tls_ca_cert_file?: string;
+        tls_cert_file?: string;
+        tls_private_key_file?: string;
+        resource?: {
+            service_version?: string;
+            service_instance_id?: string;
+            service_namespace?: string;
+        };
+    }
+
+    export interface ServerConfig {
+        encoding?: {
+            gzip?: {
+                min_length?: number;
+                compression_level?: number;
+            };
         };
+        decoding?: {
+            max_length?: number;
+            gzip?: {
+                max_length?: number;
+            };
+        };
+        metrics?: {
+            prom?: {
+                http_request_duration_seconds?: {
+                    buckets?: number[];
+                };
+            };
+        };
+    }
+
+    /**
+     * A decision event as uploaded by OPA's `decision_logs` plugin.
+     * @see https://www.openpolicyagent.org/docs/latest/management-decision-logs/
+     */
+    export interface DecisionLogEvent<I = Document, R = Document> {
+        /**
+         * Identifier of the decision, also returned as `decision_id` by the Data API.
+         */
+        decision_id: string;
+        /**
+         * Labels of the OPA instance (always includes `id` and `version`).
+         */
+        labels: Record<string, string>;
+        /**
+         * RFC 3339 time the decision was made.
+         */
+        timestamp: string;
+        /**
+         * Decision path (e.g., `authz/allow`). Absent for ad-hoc queries.
+         */
+        path?: string;
+        /**
+         * Ad-hoc query, when the decision came from the Query API.
+         */
+        query?: string;
+        input?: I;
+        result?: R;
+        /**
+         * Result after applying the `drop`/`mask` rules' result mapping, when configured.
+         */
+        mapped_result?: unknown;
+        /**
+         * JSON pointers of fields removed by the mask policy.
+         */
+        erased?: string[];
+        /**
+         * JSON pointers of fields masked (replaced) by the mask policy.
+         */
+        masked?: string[];
+        /**
+         * Revisions of the bundles that were active when the decision was made.
+         */
+        bundles?: Record<string, { revision: string }>;
+        metrics?: Metrics;
+        /**
+         * Address of the client that requested the decision.
+         */
+        requested_by?: string;
+        req_id?: number;
+        trace_id?: string;
+        span_id?: string;
+        nd_builtin_cache?: Record<string, unknown>;
+        intermediate_results?: Record<string, unknown>;
+        custom?: Record<string, unknown>;
+        type?: string;
+    }
+
+    export interface GetStatusResponse {
+        result: StatusReport;
+    }
+
+    /**
+     * OPA's status payload, as returned by the Status API and pushed by the status plugin.
+     * @see https://www.openpolicyagent.org/docs/latest/management-status/
+     */
+    export interface StatusReport {
+        /**
+         * Labels of the OPA instance (always includes `id` and `version`).
+         */
+        labels: Record<string, string>;
+        bundles?: Record<string, BundleStatus>;
+        /**
+         * Status of the discovery bundle, when discovery is enabled.
+         */
+        discovery?: BundleStatus;
+        decision_logs?: DecisionLogsStatus;
+        plugins?: Record<string, PluginStatus>;
+        metrics?: StatusMetrics;
+    }
+
+    export interface BundleStatus {
+        name: string;
+        /**
+         * Revision from the manifest of the active bundle.
+         */
+        active_revision?: string;
+        /**
+         * `snapshot` or `delta`.
+         */
+        type?: string;
+        /**
+         * Size of the last downloaded bundle, in bytes.
+         */
+        size?: number;
+        last_successful_activation?: string;
+        last_successful_download?: string;
+        last_successful_request?: string;
+        last_request?: string;
+        /**
+         * Error code of the last failed download or activation. Absent when the last attempt succeeded.
+         */
+        code?: string;
+        message?: string;
+        /**
+         * HTTP status code of the last failed download.
+         */
+        http_code?: number;
+        /**
+         * Compile or activation errors of the last failed activation.
+         */
+        errors?: OPAError[];
+        metrics?: Record<string, number | Record<string, number>>;
+    }
+
+    export interface DecisionLogsStatus {
+        code?: string;
+        message?: string;
+        http_code?: number;
+        metrics?: Record<string, number | Record<string, number>>;
+    }
+
+    export interface PluginStatus {
+        state: 'OK' | 'NOT_READY' | 'ERROR' | 'WARN' | (string & {});
+        message?: string;
+    }
+
+    export interface StatusMetrics {
+        /**
+         * Prometheus metric families in JSON form, keyed by family name.
+         */
+        prometheus?: Record<string, {
+            name: string;
+            help?: string;
+            type: number;
+            metric: Record<string, any>[];
+        }>;
+        [key: string]: unknown;
     }
 
 }
 
 export const OPAClient = OpenPolicyAgent.Client;
+
+export {Middleware} from './middleware';
+export {Bundle} from './bundle';
+export {Receiver} from './receiver';
+export {Status} from './status';
+export {Config} from './config';
+export {Explain} from './explain';
+export {Profiler} from './profiler';
+export {Prometheus} from './prometheus';
+export {Redaction} from './redaction';
+export {Audit} from './audit';
+export {Path} from './path';
+export {Patch} from './patch';
+export {Sync} from './sync';
@@ -0,0 +1,36 @@
+/**
+ * Helpers shared by the modules of this package. Not part of the public API.
+ */
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * JSON serialization with sorted object keys, so equal documents serialize equally (e.g. for cache keys).
+ */
+export const canonicalize = (value: unknown): string => JSON.stringify(value, (_key, val) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+        ? Object.fromEntries(Object.keys(val).sort().map((key) => [key, val[key]]))
+        : val
+) ?? 'undefined';
+
+/**
+ * Resolves after `ms` milliseconds, or as soon as the signal aborts. Never rejects: callers check the signal.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, {once: true});
+
+    function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+    }
+});
+
+/**
+ * Splits a slash-separated path, ignoring empty segments.
+ */
+export const segments = (path: string): string[] => path.split('/').filter(Boolean);
+
+export const isPrefix = (prefix: string[], path: string[]): boolean => prefix.every((segment, i) => path[i] === segment);
@@ -0,0 +1,207 @@
+import type {IncomingMessage, ServerResponse} from 'node:http';
+import type {OpenPolicyAgent} from './index';
+
+export namespace Middleware {
+
+    /**
+     * Standard OPA input document built from an incoming HTTP request.
+     */
+    export type HttpInput = {
+        /**
+         * Upper-case HTTP method (e.g., `GET`).
+         */
+        method: string;
+        /**
+         * Decoded path segments, e.g. `/users/alice` becomes `['users', 'alice']`.
+         */
+        path: string[];
+        /**
+         * Request headers with lower-case names. Repeated headers are joined with `, `.
+         */
+        headers: Record<string, string>;
+        /**
+         * Query parameters. Repeated parameters become arrays.
+         */
+        query: Record<string, string | string[]>;
+        /**
+         * Bearer token from the `Authorization` header, when present.
+         * The claims are decoded but NOT verified: policies must verify `raw` (e.g., with `io.jwt.verify_rs256`) before trusting them.
+         */
+        token?: {
+            raw: string;
+            header?: Record<string, unknown>;
+            claims?: Record<string, unknown>;
+        };
+    }
+
+    export type Options<R> = {
+        /**
+         * Client used to evaluate the decision.
+         */
+        client: OpenPolicyAgent.Client;
+        /**
+         * Decision path (e.g., 'http/authz/allow').
+         */
+        path: string;
+        /**
+         * Extends or replaces the standard input document. Receives the standard input and the framework request.
+         */
+        input?: (input: HttpInput, request: R) => OpenPolicyAgent.Document | Promise<OpenPolicyAgent.Document>;
+        /**
+         * Response sent on deny.
+         */
+        deny?: {
+            /**
+             * @default 403
+             */
+            status?: number;
+            /**
+             * Response body, or a function of the decision. Strings are sent as `text/plain`, anything else as JSON.
+             * @default {code: 'forbidden', message: 'Forbidden'}
+             */
+            body?: unknown | ((decision: OpenPolicyAgent.Decision) => unknown);
+        };
+        /**
+         * Failure policy, merged over the client-wide one. Fails closed by default.
+         */
+        failure?: OpenPolicyAgent.FailurePolicy;
+    }
+
+    /**
+     * Decodes one base64url-encoded JWT segment, or returns `undefined` when it is not valid JSON.
+     */
+    const decodeSegment = (segment: string | undefined): Record<string, unknown> | undefined => {
+        if (!segment) return undefined;
+        try {
+            const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+            const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+            const json = new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+            const value = JSON.parse(json);
+            return value && typeof value === 'object' ? value : undefined;
+        } catch {
+            return undefined;
+        }
+    };
+
+    /**
+     * Builds the standard input document from request parts.
+     * @param method - HTTP method.
+     * @param url - Request URL; only the path and query are used.
+     * @param headers - Request headers.
+     */
+    export const createInput = (method: string, url: string, headers: Record<string, string | string[] | undefined>): HttpInput => {
+        const parsed = new URL(url, 'http://localhost');
+
+        const normalized: Record<string, string> = {};
+        for (const [name, value] of Object.entries(headers)) {
+            if (value === undefined) continue;
+            normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+        }
+
+        const query: Record<string, string | string[]> = {};
+        for (const [key, value] of parsed.searchParams) {
+            const existing = query[key];
+            query[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+        }
+
+        const input: HttpInput = {
+            method: method.toUpperCase(),
+            path: parsed.pathname.split('/').filter(Boolean).map((segment) => {
+                try {
+                    return decodeURIComponent(segment);
+                } catch {
+                    return segment;
+                }
+            }),
+            headers: normalized,
+            query,
+        };
+
+        const match = /^Bearer\s+(\S+)$/i.exec(normalized['authorization'] ?? '');
+        if (match) {
+            const [header, claims] = match[1].split('.');
+            input.token = {raw: match[1], header: decodeSegment(header), claims: decodeSegment(claims)};
+        }
+
+        return input;
+    };
+
+    /**
+     * Builds the standard input document from a Node `http` (or Express/Connect) request.
+     */
+    export const inputFromNode = (req: IncomingMessage & { originalUrl?: string }): HttpInput => {
+        return createInput(req.method ?? 'GET', req.originalUrl ?? req.url ?? '/', req.headers);
+    };
+
+    /**
+     * Builds the standard input document from a Fetch API `Request`.
+     */
+    export const inputFromFetch = (request: Request): HttpInput => {
+        return createInput(request.method, request.url, Object.fromEntries(request.headers));
+    };
+
+    const evaluate = async <R>(options: Options<R>, input: HttpInput, request: R): Promise<OpenPolicyAgent.Decision> => {
+        const document = options.input ? await options.input(input, request) : input;
+        return options.client.authorize(options.path, document, {failure: options.failure});
+    };
+
+    const denial = <R>(options: Options<R>, decision: OpenPolicyAgent.Decision): { status: number, contentType: string, body: string } => {
+        const configured = options.deny?.body ?? {code: 'forbidden', message: 'Forbidden'};
+        const body = typeof configured === 'function' ? configured(decision) : configured;
+        return {
+            status: options.deny?.status ?? 403,
+            contentType: typeof body === 'string' ? 'text/plain; charset=utf-8' : 'application/json',
+            body: typeof body === 'string' ? body : JSON.stringify(body),
+        };
+    };
+
+    /**
+     * Authorization for a Node `http` server. On deny, the response is sent and the handler should return.
+     * @example
+     * const authorize = Middleware.node({client, path: 'http/authz/allow'});
+     * http.createServer(async (req, res) => {
+     *     if (!(await authorize(req, res)).allowed) return;
+     *     res.end('ok');
+     * });
+     */
+    export const node = (options: Options<IncomingMessage>) => {
+        return async (req: IncomingMessage, res: ServerResponse): Promise<OpenPolicyAgent.Decision> => {
+            const decision = await evaluate(options, inputFromNode(req), req);
+            if (!decision.allowed) {
+                const {status, contentType, body} = denial(options, decision);
+                res.statusCode = status;
+                res.setHeader('Content-Type', contentType);
+                res.end(body);
+            }
+            return decision;
+        };
+    };
+
+    /**
+     * Express/Connect-style `(req, res, next)` middleware. Calls `next()` on allow, responds on deny,
+     * and forwards evaluation errors to `next(error)`.
+     */
+    export const express = (options: Options<IncomingMessage>) => {
+        const authorize = node(options);
+        return (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void): void => {
+            authorize(req, res).then((decision) => {
+                if (decision.allowed) next();
+            }, next);
+        };
+    };
+
+    /**
+     * Wraps a Fetch API handler (`Request → Response`) so it only runs when the decision allows the request.
+     * @example
+     * export default {fetch: Middleware.fetch({client, path: 'http/authz/allow'})((request) => new Response('ok'))};
+     */
+    export const fetch = (options: Options<Request>) => {
+        return (handler: (request: Request) => Response | Promise<Response>) => async (request: Request): Promise<Response> => {
+            const decision = await evaluate(options, inputFromFetch(request), request);
+            if (decision.allowed) return handler(request);
+            const {status, contentType, body} = denial(options, decision);
+            return new Response(body, {status, headers: {'Content-Type': contentType}});
+        };
+    };
+
+}
@@ -0,0 +1,237 @@
+import type {OpenPolicyAgent} from './index';
+import {Redaction} from './redaction';
+import {isObject} from './internal';
+
+export namespace Patch {
+
+    /**
+     * JSON pointer (RFC 6901, e.g. `/users/0/name`), or its unescaped reference tokens (e.g. `['users', '0', 'name']`).
+     */
+    export type Pointer = string | readonly string[];
+
+    export type AddOperation = { op: 'add', path: string, value: OpenPolicyAgent.Document };
+    export type RemoveOperation = { op: 'remove', path: string };
+    export type ReplaceOperation = { op: 'replace', path: string, value: OpenPolicyAgent.Document };
+    export type MoveOperation = { op: 'move', from: string, path: string };
+    export type CopyOperation = { op: 'copy', from: string, path: string };
+    export type TestOperation = { op: 'test', path: string, value: OpenPolicyAgent.Document };
+
+    /**
+     * A JSON Patch (RFC 6902) operation. OPA's Data API applies `add`, `remove` and `replace`; the other
+     * operations can be used with {@link apply}.
+     */
+    export type Operation = AddOperation | RemoveOperation | ReplaceOperation | MoveOperation | CopyOperation | TestOperation;
+
+    /**
+     * Thrown by {@link apply} when an operation cannot be applied, e.g. a missing path or a failed `test`.
+     */
+    export class PatchError extends Error {
+
+        constructor(public readonly operation: Operation, message: string) {
+            super(`${operation.op} ${operation.path}: ${message}`);
+        }
+
+    }
+
+    /**
+     * Splits a JSON pointer into unescaped reference tokens. `''` points to the whole document.
+     */
+    export const tokens = Redaction.tokens;
+
+    /**
+     * Builds a JSON pointer from reference tokens, escaping `~` and `/`, e.g. `['a/b', 'c']` is `/a~1b/c`.
+     */
+    export const pointer = (path: Pointer): string => typeof path === 'string'
+        ? path
+        : path.map((token) => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+
+    /**
+     * Builds a patch with typed operations.
+     * @example
+     * const operations = new Patch.Builder()
+     *     .add(['users', 'bob@example.com'], {roles: ['viewer']})
+     *     .remove('/users/alice@example.com')
+     *     .build();
+     * await opa.data.patch('acl', operations);
+     */
+    export class Builder {
+
+        private readonly operations: Operation[] = [];
+
+        add(path: Pointer, value: OpenPolicyAgent.Document): this {
+            this.operations.push({op: 'add', path: pointer(path), value});
+            return this;
+        }
+
+        remove(path: Pointer): this {
+            this.operations.push({op: 'remove', path: pointer(path)});
+            return this;
+        }
+
+        replace(path: Pointer, value: OpenPolicyAgent.Document): this {
+            this.operations.push({op: 'replace', path: pointer(path), value});
+            return this;
+        }
+
+        move(from: Pointer, path: Pointer): this {
+            this.operations.push({op: 'move', from: pointer(from), path: pointer(path)});
+            return this;
+        }
+
+        copy(from: Pointer, path: Pointer): this {
+            this.operations.push({op: 'copy', from: pointer(from), path: pointer(path)});
+            return this;
+        }
+
+        test(path: Pointer, value: OpenPolicyAgent.Document): this {
+            this.operations.push({op: 'test', path: pointer(path), value});
+            return this;
+        }
+
+        build(): Operation[] {
+            return structuredClone(this.operations);
+        }
+
+    }
+
+    /**
+     * Reads an own member of an object, so keys like `constructor` are not looked up on the prototype.
+     */
+    const member = (value: Record<string, unknown>, key: string): unknown =>
+        Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+
+    /**
+     * Deep equality of JSON values. Object members set to `undefined` count as absent, as in JSON.
+     */
+    const equal = (a: unknown, b: unknown): boolean => {
+        if (a === b) return true;
+        if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, i) => equal(item, b[i]));
+        if (isObject(a) && isObject(b)) {
+            const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+            return keys.length === Object.keys(b).filter((key) => b[key] !== undefined).length
+                && keys.every((key) => equal(a[key], member(b, key)));
+        }
+        return false;
+    };
+
+    const compare = (before: unknown, after: unknown, path: string[], operations: Operation[]): void => {
+        if (equal(before, after)) return;
+
+        if (isObject(before) && isObject(after)) {
+            for (const key of Object.keys(before)) {
+                if (before[key] !== undefined && member(after, key) === undefined) operations.push({op: 'remove', path: pointer([...path, key])});
+            }
+            for (const key of Object.keys(after)) {
+                if (after[key] === undefined) continue;
+                const previous = member(before, key);
+                if (previous === undefined) operations.push({op: 'add', path: pointer([...path, key]), value: after[key]});
+                else compare(previous, after[key], [...path, key], operations);
+            }
+            return;
+        }
+
+        if (Array.isArray(before) && Array.isArray(after)) {
+            // Items shared at both ends are kept, so one insertion or removal is one operation
+            let start = 0;
+            while (start < before.length && start < after.length && equal(before[start], after[start])) start++;
+            let end = 0;
+            while (end < before.length - start && end < after.length - start
+            && equal(before[before.length - 1 - end], after[after.length - 1 - end])) end++;
+
+            const removed = before.length - start - end;
+            const added = after.length - start - end;
+            const paired = Math.min(removed, added);
+            for (let i = start; i < start + paired; i++) compare(before[i], after[i], [...path, String(i)], operations);
+            for (let i = start + removed - 1; i >= start + paired; i--) operations.push({op: 'remove', path: pointer([...path, String(i)])});
+            for (let i = start + paired; i < start + added; i++) operations.push({op: 'add', path: pointer([...path, String(i)]), value: after[i]});
+            return;
+        }
+
+        operations.push(before === undefined
+            ? {op: 'add', path: pointer(path), value: after}
+            : after === undefined ? {op: 'remove', path: pointer(path)} : {op: 'replace', path: pointer(path), value: after});
+    };
+
+    /**
+     * Computes a patch that turns one document into another. Unchanged members are left out, objects are compared
+     * member by member, and arrays keep the items they share at both ends, so a single insertion or removal
+     * anywhere in an array is one operation. Only `add`, `remove` and `replace` are produced.
+     * @param before - Current document.
+     * @param after - Desired document.
+     */
+    export const diff = (before: OpenPolicyAgent.Document, after: OpenPolicyAgent.Document): Operation[] => {
+        const operations: Operation[] = [];
+        compare(before, after, [], operations);
+        return operations;
+    };
+
+    const resolve = (document: unknown, path: string[], operation: Operation): unknown =>
+        path.reduce<unknown>((value, token) => {
+            if (Array.isArray(value) && /^(0|[1-9]\d*)$/.test(token) && Number(token) < value.length) return value[Number(token)];
+            if (isObject(value) && Object.prototype.hasOwnProperty.call(value, token)) return value[token];
+            throw new PatchError(operation, 'path not found');
+        }, document);
+
+    /**
+     * Applies a patch to a copy of a document. The document is not modified.
+     * @throws PatchError When an operation refers to a missing path, or a `test` fails.
+     */
+    export const apply = (document: OpenPolicyAgent.Document, operations: Operation[]): OpenPolicyAgent.Document => {
+        let result = structuredClone(document);
+
+        const remove = (path: string[], operation: Operation): unknown => {
+            if (!path.length) throw new PatchError(operation, 'cannot remove the whole document');
+            const parent = resolve(result, path.slice(0, -1), operation);
+            const token = path[path.length - 1];
+            const value = resolve(parent, [token], operation);
+            if (Array.isArray(parent)) parent.splice(Number(token), 1);
+            else delete (parent as Record<string, unknown>)[token];
+            return value;
+        };
+
+        const add = (path: string[], value: unknown, operation: Operation, replace = false): void => {
+            if (!path.length) {
+                result = value;
+                return;
+            }
+            const parent = resolve(result, path.slice(0, -1), operation);
+            const token = path[path.length - 1];
+            if (Array.isArray(parent)) {
+                const index = token === '-' ? parent.length : /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+                if (!(index <= parent.length - (replace ? 1 : 0))) throw new PatchError(operation, 'index out of bounds');
+                parent.splice(index, replace ? 1 : 0, value);
+            } else if (isObject(parent)) {
+                if (replace && !Object.prototype.hasOwnProperty.call(parent, token)) throw new PatchError(operation, 'path not found');
+                parent[token] = value;
+            } else {
+                throw new PatchError(operation, 'parent is not an object or array');
+            }
+        };
+
+        for (const operation of operations) {
+            const path = tokens(operation.path);
+            switch (operation.op) {
+                case 'add':
+                    add(path, structuredClone(operation.value), operation);
+                    break;
+                case 'remove':
+                    remove(path, operation);
+                    break;
+                case 'replace':
+                    add(path, structuredClone(operation.value), operation, true);
+                    break;
+                case 'move':
+                    add(path, remove(tokens(operation.from), operation), operation);
+                    break;
+                case 'copy':
+                    add(path, structuredClone(resolve(result, tokens(operation.from), operation)), operation);
+                    break;
+                case 'test':
+                    if (!equal(resolve(result, path, operation), operation.value)) throw new PatchError(operation, 'test failed');
+                    break;
+            }
+        }
+        return result;
+    };
+
+}
@@ -0,0 +1,114 @@
+export namespace Path {
+
+    /**
+     * A document path: slash-separated (`authz/team-a/allow`) or an array of raw segments (`['authz', 'team-a', 'allow']`).
+     * Strings are never read as Rego refs, so `data.v1/x` addresses the key `data.v1`; parse refs with {@link parseRef}.
+     */
+    export type Like = string | readonly string[];
+
+    /**
+     * Thrown when a path cannot be parsed or addresses no document (e.g. an empty or `..` segment).
+     */
+    export class InvalidPathError extends Error {
+
+        constructor(public readonly path: string, reason: string) {
+            super(`Invalid path ${JSON.stringify(path)}: ${reason}`);
+        }
+
+    }
+
+    const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+    const KEYWORDS = new Set([
+        'as', 'contains', 'default', 'else', 'every', 'false', 'if', 'import', 'in', 'not', 'null', 'package', 'some', 'true', 'with',
+    ]);
+
+    const validate = (segment: string, path: string): string => {
+        if (segment === '') throw new InvalidPathError(path, 'empty segment');
+        if (segment === '.' || segment === '..') throw new InvalidPathError(path, `relative segment ${segment}`);
+        return segment;
+    };
+
+    /**
+     * Parses a Rego ref rooted at `data`, e.g. `data.authz["team-a"].allow`, into segments that any path argument
+     * accepts. Brackets take double-quoted or raw (backtick) strings and numbers; variables are rejected, as they
+     * do not address one document.
+     */
+    export const parseRef = (ref: string): string[] => {
+        const text = ref.trim();
+        if (!/^data(?![a-zA-Z0-9_])/.test(text)) throw new InvalidPathError(ref, 'a Rego ref must start with data');
+
+        const result: string[] = [];
+        let rest = text.slice('data'.length);
+        while (rest) {
+            let match: RegExpExecArray | null;
+            if ((match = /^\.([a-zA-Z_][a-zA-Z0-9_]*)/.exec(rest))) {
+                result.push(match[1]);
+            } else if ((match = /^\[\s*("(?:[^"\\]|\\.)*")\s*]/.exec(rest))) {
+                result.push(JSON.parse(match[1]));
+            } else if ((match = /^\[\s*`([^`]*)`\s*]/.exec(rest))) {
+                result.push(match[1]);
+            } else if ((match = /^\[\s*(-?\d+(?:\.\d+)?)\s*]/.exec(rest))) {
+                result.push(match[1]);
+            } else {
+                throw new InvalidPathError(ref, `unexpected ${JSON.stringify(rest)}`);
+            }
+            rest = rest.slice(match[0].length);
+        }
+        return result.map((segment) => validate(segment, ref));
+    };
+
+    /**
+     * Reads a path into its raw, unencoded segments. An empty string (or `/`) is the root document.
+     * @throws InvalidPathError When the path has an empty, `.` or `..` segment.
+     */
+    export const segments = (path: Like): string[] => {
+        if (typeof path !== 'string') return path.map((segment) => validate(segment, path.join('/')));
+        const trimmed = path.replace(/^\//, '').replace(/\/$/, '');
+        return trimmed ? trimmed.split('/').map((segment) => validate(segment, path)) : [];
+    };
+
+    /**
+     * Joins paths into one, e.g. `join(parseRef('data.tenants'), [tenant], 'allow')`. Each part is read with {@link segments}.
+     */
+    export const join = (...parts: Like[]): string[] => parts.flatMap((part) => segments(part));
+
+    /**
+     * Formats a path for a REST URL, percent-encoding each segment, e.g. `['team a', 'x/y']` is `team%20a/x%2Fy`.
+     */
+    export const encode = (path: Like): string => segments(path).map(encodeURIComponent).join('/');
+
+    /**
+     * Reads a REST URL path back into raw segments, decoding each one.
+     */
+    export const decode = (path: string): string[] =>
+        path.split('/').filter(Boolean).map((segment) => validate(decodeURIComponent(segment), path));
+
+    const key = (segment: string): string =>
+        IDENTIFIER.test(segment) && !KEYWORDS.has(segment) ? `.${segment}` : `[${JSON.stringify(segment)}]`;
+
+    /**
+     * Formats a path as a Rego ref, e.g. `['authz', 'team-a']` is `data.authz["team-a"]`.
+     * Segments are always written as strings: array indices read as `["0"]`.
+     */
+    export const toRef = (path: Like): string => `data${segments(path).map(key).join('')}`;
+
+    /**
+     * Reads a Rego package name (e.g. `authz.v1`, `data.authz.v1` or `authz["team-a"]`) as a path.
+     */
+    export const fromPackage = (name: string): string[] => {
+        const trimmed = name.trim().replace(/^package\s+/, '');
+        return parseRef(/^data[.[]/.test(trimmed) ? trimmed : `data.${trimmed}`);
+    };
+
+    /**
+     * Formats a path as a Rego package name, e.g. `authz/v1` is `authz.v1`.
+     * @throws InvalidPathError For the root document, or when the first segment is not a valid identifier.
+     */
+    export const toPackage = (path: Like): string => {
+        const [head, ...rest] = segments(path);
+        if (head === undefined) throw new InvalidPathError('', 'the root document is not a package');
+        if (!IDENTIFIER.test(head) || KEYWORDS.has(head)) throw new InvalidPathError(head, 'a package must start with an identifier');
+        return `${head}${rest.map(key).join('')}`;
+    };
+
+}
@@ -0,0 +1,245 @@
+import type {OpenPolicyAgent} from './index';
+
+export namespace Profiler {
+
+    /**
+     * Distribution of one metric across the recorded calls. Percentiles are computed over a uniform sample
+     * of at most `samples` values; `count`, `min`, `max` and `mean` are exact.
+     */
+    export type Summary = {
+        count: number;
+        min: number;
+        max: number;
+        mean: number;
+        p50: number;
+        p90: number;
+        p99: number;
+    }
+
+    export type PathReport = {
+        /**
+         * Decision path (e.g. `authz/allow`), or `query`/`compile` for ad-hoc queries and partial evaluation.
+         */
+        path: string;
+        /**
+         * Number of recorded calls.
+         */
+        count: number;
+        /**
+         * Summary per metric key. Histograms reported with `instrument` are not included.
+         */
+        metrics: Record<string, Summary>;
+        /**
+         * Share of the mean evaluation time (`timer_rego_query_eval_ns`) spent in each instrumented operation,
+         * e.g. `{rule_index: 0.12, virtual_cache_lookup: 0.03}`. Requires `instrument`.
+         */
+        breakdown?: Record<string, number>;
+        /**
+         * Hit ratio of the evaluation caches, e.g. `{virtual: 0.8}`. Requires `instrument`.
+         */
+        cache?: Record<string, number>;
+    }
+
+    export type Report = {
+        /**
+         * ISO timestamp of the report.
+         */
+        generated: string;
+        /**
+         * Paths, slowest first.
+         */
+        paths: PathReport[];
+    }
+
+    export type Options = {
+        /**
+         * Maximum number of values kept per path and metric to compute percentiles.
+         * @default 1024
+         */
+        samples?: number;
+        /**
+         * Metric used to rank paths in reports, by its p99.
+         * @default 'timer_rego_query_eval_ns'
+         */
+        rankBy?: string;
+    }
+
+    type Series = { count: number, sum: number, min: number, max: number, samples: number[] };
+
+    const OPERATION = /^timer_eval_op_(.+)_ns$/;
+    const CACHE = /^counter_eval_op_(.+)_cache_(hit|miss)$/;
+
+    const percentile = (sorted: number[], p: number): number =>
+        sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p / 100 * sorted.length) - 1))];
+
+    /**
+     * Collects the `metrics` of many evaluations and summarizes them per decision path.
+     * Record responses yourself, or add {@link interceptor} to a client to record every call made with `metrics` or `instrument`.
+     * @example
+     * const profiler = new Profiler.Aggregator();
+     * const opa = new OPAClient({baseUrl, interceptors: [profiler.interceptor]});
+     * await opa.data.post('authz/allow', {input}, {metrics: true, instrument: true});
+     * console.log(Profiler.format(profiler.report()));
+     */
+    export class Aggregator {
+
+        private readonly paths = new Map<string, Map<string, Series>>();
+        private readonly calls = new Map<string, number>();
+
+        constructor(private readonly options: Options = {}) {
+        }
+
+        /**
+         * Records the metrics of one call.
+         * @param path - Decision path the metrics belong to.
+         * @param metrics - The `metrics` of a response.
+         */
+        record(path: string, metrics: OpenPolicyAgent.Metrics): void {
+            const limit = this.options.samples ?? 1024;
+            let series = this.paths.get(path);
+            if (!series) this.paths.set(path, series = new Map());
+            this.calls.set(path, (this.calls.get(path) ?? 0) + 1);
+
+            for (const [key, value] of Object.entries(metrics)) {
+                if (typeof value !== 'number') continue;
+                let entry = series.get(key);
+                if (!entry) series.set(key, entry = {count: 0, sum: 0, min: Infinity, max: -Infinity, samples: []});
+                entry.count++;
+                entry.sum += value;
+                entry.min = Math.min(entry.min, value);
+                entry.max = Math.max(entry.max, value);
+                // Reservoir sampling keeps a uniform sample of every value seen so far.
+                if (entry.samples.length < limit) {
+                    entry.samples.push(value);
+                } else {
+                    const slot = Math.floor(Math.random() * entry.count);
+                    if (slot < limit) entry.samples[slot] = value;
+                }
+            }
+        }
+
+        /**
+         * Records the metrics of responses from the Data, Query and Compile APIs for calls made with `metrics` or `instrument`.
+         */
+        readonly interceptor: OpenPolicyAgent.Interceptor = async (request, next) => {
+            const response = await next(request);
+            const url = new URL(request.url);
+            const path = /\/v1\/data\/?(.*)$/.exec(url.pathname)?.[1]
+                ?? (url.pathname.endsWith('/v1/query') ? 'query' : url.pathname.endsWith('/v1/compile') ? 'compile' : undefined);
+            const measured = url.searchParams.get('metrics') === 'true' || url.searchParams.get('instrument') === 'true';
+            if (path === undefined || !measured || !response.ok) return response;
+
+            try {
+                const body = await response.clone().json();
+                if (body?.metrics && typeof body.metrics === 'object') this.record(decodeURIComponent(path), body.metrics);
+            } catch {
+                // Not JSON: nothing to record.
+            }
+            return response;
+        };
+
+        /**
+         * Summarizes everything recorded so far. The report is plain JSON.
+         */
+        report(): Report {
+            const rankBy = this.options.rankBy ?? 'timer_rego_query_eval_ns';
+            const paths: PathReport[] = [];
+
+            for (const [path, series] of this.paths) {
+                const metrics: Record<string, Summary> = {};
+                for (const [key, entry] of [...series].sort(([a], [b]) => a.localeCompare(b))) {
+                    const sorted = [...entry.samples].sort((a, b) => a - b);
+                    metrics[key] = {
+                        count: entry.count,
+                        min: entry.min,
+                        max: entry.max,
+                        mean: entry.sum / entry.count,
+                        p50: percentile(sorted, 50),
+                        p90: percentile(sorted, 90),
+                        p99: percentile(sorted, 99),
+                    };
+                }
+
+                const report: PathReport = {path, count: this.calls.get(path) ?? 0, metrics};
+
+                const evaluation = metrics.timer_rego_query_eval_ns?.mean;
+                const breakdown: Record<string, number> = {};
+                const hits: Record<string, { hit: number, miss: number }> = {};
+                for (const [key, summary] of Object.entries(metrics)) {
+                    const operation = OPERATION.exec(key)?.[1];
+                    if (operation && evaluation) breakdown[operation] = summary.mean * summary.count / report.count / evaluation;
+                    const cache = CACHE.exec(key);
+                    if (cache) {
+                        hits[cache[1]] ??= {hit: 0, miss: 0};
+                        hits[cache[1]][cache[2] as 'hit' | 'miss'] += summary.mean * summary.count;
+                    }
+                }
+                if (Object.keys(breakdown).length) report.breakdown = breakdown;
+                const ratios = Object.entries(hits).filter(([, {hit, miss}]) => hit + miss > 0);
+                if (ratios.length) report.cache = Object.fromEntries(ratios.map(([name, {hit, miss}]) => [name, hit / (hit + miss)]));
+
+                paths.push(report);
+            }
+
+            paths.sort((a, b) => (b.metrics[rankBy]?.p99 ?? -1) - (a.metrics[rankBy]?.p99 ?? -1) || b.count - a.count);
+            return {generated: new Date().toISOString(), paths};
+        }
+
+        /**
+         * Forgets everything recorded so far.
+         */
+        reset(): void {
+            this.paths.clear();
+            this.calls.clear();
+        }
+
+    }
+
+    /**
+     * Formats a nanosecond duration the way Go prints durations (e.g. `850ns`, `12.5µs`, `1.234ms`).
+     */
+    const duration = (ns: number): string => {
+        const units: [number, string][] = [[1e9, 's'], [1e6, 'ms'], [1e3, 'µs']];
+        for (const [size, unit] of units) {
+            if (ns >= size) return `${Number((ns / size).toFixed(3))}${unit}`;
+        }
+        return `${Math.round(ns)}ns`;
+    };
+
+    const table = (rows: string[][]): string[] => {
+        const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+        const border = `+${widths.map((width) => '-'.repeat(width + 2)).join('+')}+`;
+        const line = (row: string[], header: boolean) => `|${row.map((cell, i) => {
+            if (!header) return ` ${i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])} `;
+            const left = Math.floor((widths[i] - cell.length) / 2);
+            return ` ${' '.repeat(left)}${cell.padEnd(widths[i] - left)} `;
+        }).join('|')}|`;
+        return [border, line(rows[0], true), border, ...rows.slice(1).map((row) => line(row, false)), border];
+    };
+
+    /**
+     * Renders a report as text tables, in the style of `opa eval --profile`: one table per path, slowest first,
+     * followed by the evaluation breakdown when instrumented.
+     */
+    export const format = (report: Report): string => {
+        const sections = report.paths.map((entry) => {
+            const rows = [['METRIC', 'COUNT', 'MIN', 'MEAN', 'P50', 'P90', 'P99', 'MAX']];
+            for (const [key, summary] of Object.entries(entry.metrics)) {
+                const value = key.endsWith('_ns') ? duration : (n: number) => String(Number(n.toFixed(2)));
+                rows.push([key, String(summary.count), ...[summary.min, summary.mean, summary.p50, summary.p90, summary.p99, summary.max].map(value)]);
+            }
+            const lines = [`${entry.path} (${entry.count} call${entry.count === 1 ? '' : 's'})`, ...table(rows)];
+
+            if (entry.breakdown) {
+                const shares = Object.entries(entry.breakdown).sort(([, a], [, b]) => b - a);
+                lines.push(...table([['OPERATION', 'SHARE OF EVAL'], ...shares.map(([name, share]) => [name, `${(share * 100).toFixed(1)}%`])]));
+            }
+            if (entry.cache) {
+                lines.push(...table([['CACHE', 'HIT RATIO'], ...Object.entries(entry.cache).map(([name, ratio]) => [name, `${(ratio * 100).toFixed(1)}%`])]));
+            }
+            return lines.join('\n');
+        });
+        return sections.join('\n\n');
+    };
+
+}
@@ -0,0 +1,347 @@
+export namespace Prometheus {
+
+    export type Labels = Record<string, string>;
+
+    export type Sample = {
+        labels: Labels;
+        value: number;
+        /**
+         * Milliseconds since the epoch, when the exposition includes one.
+         */
+        timestamp?: number;
+    }
+
+    export type HistogramSample = {
+        labels: Labels;
+        /**
+         * Cumulative buckets, ordered by upper bound. The last one has `le: Infinity`.
+         */
+        buckets: { le: number, count: number }[];
+        sum: number;
+        count: number;
+    }
+
+    export type SummarySample = {
+        labels: Labels;
+        quantiles: { quantile: number, value: number }[];
+        sum: number;
+        count: number;
+    }
+
+    type Base = { name: string, help?: string };
+
+    export type Family =
+        | Base & { type: 'counter' | 'gauge' | 'untyped', samples: Sample[] }
+        | Base & { type: 'histogram', samples: HistogramSample[] }
+        | Base & { type: 'summary', samples: SummarySample[] };
+
+    /**
+     * Metric families keyed by name.
+     */
+    export type Families = Record<string, Family>;
+
+    /**
+     * Thrown for lines that are not valid in the text exposition format.
+     */
+    export class ParseError extends Error {
+
+        constructor(public readonly line: number, message: string) {
+            super(`Line ${line}: ${message}`);
+        }
+
+    }
+
+    const TYPES = ['counter', 'gauge', 'histogram', 'summary', 'untyped'] as const;
+
+    const number = (text: string): number => {
+        switch (text) {
+            case '+Inf':
+            case 'Inf':
+                return Infinity;
+            case '-Inf':
+                return -Infinity;
+            case 'NaN':
+                return NaN;
+            default:
+                return text.trim() === '' ? NaN : Number(text);
+        }
+    };
+
+    const unescape = (text: string): string => text.replace(/\\(.)/g, (_, c) => c === 'n' ? '\n' : c);
+
+    /**
+     * Parses `name{labels} value [timestamp]`.
+     */
+    const sample = (text: string, line: number): { name: string, labels: Labels, value: number, timestamp?: number } => {
+        const match = /^([a-zA-Z_:][a-zA-Z0-9_:]*)\s*(?:\{((?:[^"}]|"(?:[^"\\]|\\.)*")*)\})?\s+(\S+)(?:\s+(-?\d+))?\s*$/.exec(text);
+        if (!match) throw new ParseError(line, `Invalid sample: ${text}`);
+        const labels: Labels = {};
+        const pairs = /\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"((?:[^"\\]|\\.)*)"\s*,?/gy;
+        const body = match[2] ?? '';
+        let pair: RegExpExecArray | null;
+        while (pairs.lastIndex < body.length && (pair = pairs.exec(body))) labels[pair[1]] = unescape(pair[2]);
+        if (body.trim() && pairs.lastIndex < body.length) throw new ParseError(line, `Invalid labels: {${body}}`);
+        const value = number(match[3]);
+        if (Number.isNaN(value) && match[3] !== 'NaN') throw new ParseError(line, `Invalid value: ${match[3]}`);
+        return {name: match[1], labels, value, timestamp: match[4] === undefined ? undefined : Number(match[4])};
+    };
+
+    const without = (labels: Labels, name: string): Labels => {
+        const {[name]: _, ...rest} = labels;
+        return rest;
+    };
+
+    const key = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+    /**
+     * Parses the Prometheus text exposition format (version 0.0.4), as served by OPA's `/metrics`.
+     * Histogram `_bucket`/`_sum`/`_count` and summary quantile series are grouped into one sample per label set.
+     * Throws {@link ParseError} on malformed lines.
+     */
+    export const parse = (text: string): Families => {
+        const families: Families = {};
+        const help: Record<string, string> = {};
+        // Histogram and summary samples under construction, by family and label set.
+        const groups = new Map<string, HistogramSample | SummarySample>();
+
+        const family = (name: string): Family => families[name] ??= {name, help: help[name], type: 'untyped', samples: []};
+
+        const group = <S extends HistogramSample | SummarySample>(target: Family, labels: Labels, create: () => S): S => {
+            const id = `${target.name}\u0000${key(labels)}`;
+            let existing = groups.get(id) as S | undefined;
+            if (!existing) {
+                groups.set(id, existing = create());
+                (target.samples as S[]).push(existing);
+            }
+            return existing;
+        };
+
+        text.split('\n').forEach((raw, i) => {
+            const line = raw.trim();
+            if (!line) return;
+            if (line.startsWith('#')) {
+                const match = /^#\s+(HELP|TYPE)\s+([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\s+(.*))?$/.exec(line);
+                if (!match) return;
+                const [, kind, name, rest = ''] = match;
+                if (kind === 'HELP') {
+                    help[name] = unescape(rest);
+                    if (families[name]) families[name].help = help[name];
+                } else {
+                    const type = rest.trim() as Family['type'];
+                    if (!TYPES.includes(type)) throw new ParseError(i + 1, `Unknown type: ${rest}`);
+                    families[name] = {name, help: help[name], type, samples: []} as Family;
+                }
+                return;
+            }
+
+            const parsed = sample(line, i + 1);
+            const suffix = /_(bucket|sum|count)$/.exec(parsed.name);
+            const base = suffix ? parsed.name.slice(0, -suffix[0].length) : parsed.name;
+            const target = families[parsed.name] && families[parsed.name].type !== 'histogram' && families[parsed.name].type !== 'summary'
+                ? families[parsed.name]
+                : families[base]?.type === 'histogram' || families[base]?.type === 'summary' ? families[base] : family(parsed.name);
+
+            if (target.type === 'histogram') {
+                const labels = suffix?.[1] === 'bucket' ? without(parsed.labels, 'le') : parsed.labels;
+                const entry = group(target, labels, (): HistogramSample => ({labels, buckets: [], sum: 0, count: 0}));
+                if (suffix?.[1] === 'bucket') entry.buckets.push({le: number(parsed.labels.le ?? '+Inf'), count: parsed.value});
+                else if (suffix?.[1] === 'sum') entry.sum = parsed.value;
+                else if (suffix?.[1] === 'count') entry.count = parsed.value;
+            } else if (target.type === 'summary') {
+                const labels = suffix ? parsed.labels : without(parsed.labels, 'quantile');
+                const entry = group(target, labels, (): SummarySample => ({labels, quantiles: [], sum: 0, count: 0}));
+                if (suffix?.[1] === 'sum') entry.sum = parsed.value;
+                else if (suffix?.[1] === 'count') entry.count = parsed.value;
+                else entry.quantiles.push({quantile: number(parsed.labels.quantile ?? 'NaN'), value: parsed.value});
+            } else {
+                target.samples.push({labels: parsed.labels, value: parsed.value, timestamp: parsed.timestamp});
+            }
+        });
+
+        for (const entry of groups.values()) {
+            if ('buckets' in entry) entry.buckets.sort((a, b) => a.le - b.le);
+            else entry.quantiles.sort((a, b) => a.quantile - b.quantile);
+        }
+        return families;
+    };
+
+    const matches = (labels: Labels, filter: Labels = {}): boolean =>
+        Object.entries(filter).every(([name, value]) => labels[name] === value);
+
+    /**
+     * Sums the counter, gauge or untyped samples of a family whose labels include `labels`.
+     * Returns `undefined` when the family does not exist or nothing matches.
+     */
+    export const value = (families: Families, name: string, labels?: Labels): number | undefined => {
+        const family = families[name];
+        if (!family || family.type === 'histogram' || family.type === 'summary') return undefined;
+        const samples = family.samples.filter((sample) => matches(sample.labels, labels));
+        return samples.length ? samples.reduce((sum, sample) => sum + sample.value, 0) : undefined;
+    };
+
+    /**
+     * Merges the histogram samples of a family whose labels include `labels` (e.g. all handlers of an HTTP histogram).
+     */
+    export const histogram = (families: Families, name: string, labels?: Labels): HistogramSample | undefined => {
+        const family = families[name];
+        if (family?.type !== 'histogram') return undefined;
+        const samples = family.samples.filter((sample) => matches(sample.labels, labels));
+        if (!samples.length) return undefined;
+        const buckets = new Map<number, number>();
+        for (const sample of samples) {
+            for (const bucket of sample.buckets) buckets.set(bucket.le, (buckets.get(bucket.le) ?? 0) + bucket.count);
+        }
+        return {
+            labels: labels ?? {},
+            buckets: [...buckets].sort(([a], [b]) => a - b).map(([le, count]) => ({le, count})),
+            sum: samples.reduce((sum, sample) => sum + sample.sum, 0),
+            count: samples.reduce((sum, sample) => sum + sample.count, 0),
+        };
+    };
+
+    /**
+     * Estimates a quantile from histogram buckets by linear interpolation, like PromQL's `histogram_quantile`.
+     * @param histogram - A histogram sample.
+     * @param q - Quantile between 0 and 1.
+     */
+    export const quantile = (histogram: HistogramSample, q: number): number => {
+        const buckets = histogram.buckets;
+        const total = buckets[buckets.length - 1]?.count ?? 0;
+        if (!total || q < 0 || q > 1) return NaN;
+        const rank = q * total;
+        const index = buckets.findIndex((bucket) => bucket.count >= rank);
+        const bucket = buckets[index];
+        if (bucket.le === Infinity) return buckets[index - 1]?.le ?? NaN;
+        const lower = index > 0 ? buckets[index - 1] : {le: 0, count: 0};
+        const width = bucket.count - lower.count;
+        return width ? lower.le + (bucket.le - lower.le) * (rank - lower.count) / width : bucket.le;
+    };
+
+    export type HttpSeries = {
+        handler: string;
+        method: string;
+        code: string;
+        count: number;
+        /**
+         * Mean duration in seconds.
+         */
+        mean: number;
+        /**
+         * Estimated percentiles in seconds.
+         */
+        p50: number;
+        p90: number;
+        p99: number;
+    }
+
+    export type BundleSeries = {
+        /**
+         * Times of the last successful steps, from the status plugin's gauges.
+         */
+        lastRequest?: Date;
+        lastSuccessfulRequest?: Date;
+        lastSuccessfulDownload?: Date;
+        lastSuccessfulActivation?: Date;
+        /**
+         * Number of failed loads.
+         */
+        failures: number;
+        /**
+         * Mean loading duration per stage, in nanoseconds.
+         */
+        loading: Record<string, number>;
+    }
+
+    /**
+     * The OPA-specific series of a scrape, in usable form.
+     */
+    export type Summary = {
+        version?: string;
+        /**
+         * One entry per handler, method and status code of OPA's HTTP server.
+         */
+        http: HttpSeries[];
+        /**
+         * Requires `status.prometheus: true` in OPA's configuration.
+         */
+        bundles: Record<string, BundleSeries>;
+        /**
+         * Plugin states (`OK`, `NOT_READY`, ...), requires `status.prometheus: true`.
+         */
+        plugins: Record<string, string>;
+        runtime: {
+            goroutines?: number;
+            heapBytes?: number;
+            residentBytes?: number;
+        };
+    }
+
+    const time = (families: Families, name: string, bundle: string): Date | undefined => {
+        const ns = value(families, name, {name: bundle});
+        return ns === undefined ? undefined : new Date(ns / 1e6);
+    };
+
+    /**
+     * Extracts OPA's own series from a scrape: HTTP latencies, bundle and plugin status, and Go runtime gauges.
+     * @example
+     * const {http, bundles} = Prometheus.summarize(await opa.metrics.get());
+     * const slowest = http.sort((a, b) => b.p99 - a.p99)[0];
+     */
+    export const summarize = (families: Families): Summary => {
+        const summary: Summary = {http: [], bundles: {}, plugins: {}, runtime: {}};
+
+        const info = families['opa_info'];
+        if (info?.type !== 'histogram' && info?.type !== 'summary') summary.version = (info?.samples[0] as Sample | undefined)?.labels.version;
+
+        const http = families['http_request_duration_seconds'];
+        if (http?.type === 'histogram') {
+            summary.http = http.samples.map((sample) => ({
+                handler: sample.labels.handler ?? '',
+                method: sample.labels.method ?? '',
+                code: sample.labels.code ?? '',
+                count: sample.count,
+                mean: sample.count ? sample.sum / sample.count : NaN,
+                p50: quantile(sample, 0.5),
+                p90: quantile(sample, 0.9),
+                p99: quantile(sample, 0.99),
+            }));
+        }
+
+        const names = new Set<string>();
+        for (const family of ['last_bundle_request', 'last_success_bundle_request', 'last_success_bundle_download', 'last_success_bundle_activation', 'bundle_failed_load_counter', 'bundle_loading_duration_ns']) {
+            for (const sample of families[family]?.samples ?? []) if (sample.labels.name) names.add(sample.labels.name);
+        }
+        for (const name of names) {
+            const loading: Record<string, number> = {};
+            const durations = families['bundle_loading_duration_ns'];
+            if (durations?.type === 'histogram') {
+                for (const sample of durations.samples) {
+                    if (sample.labels.name === name && sample.count) loading[sample.labels.stage ?? ''] = sample.sum / sample.count;
+                }
+            }
+            summary.bundles[name] = {
+                lastRequest: time(families, 'last_bundle_request', name),
+                lastSuccessfulRequest: time(families, 'last_success_bundle_request', name),
+                lastSuccessfulDownload: time(families, 'last_success_bundle_download', name),
+                lastSuccessfulActivation: time(families, 'last_success_bundle_activation', name),
+                failures: value(families, 'bundle_failed_load_counter', {name}) ?? 0,
+                loading,
+            };
+        }
+
+        const plugins = families['plugin_status_gauge'];
+        if (plugins?.type === 'gauge' || plugins?.type === 'untyped') {
+            for (const sample of plugins.samples) {
+                if (sample.labels.name && sample.value) summary.plugins[sample.labels.name] = sample.labels.status;
+            }
+        }
+
+        summary.runtime = {
+            goroutines: value(families, 'go_goroutines'),
+            heapBytes: value(families, 'go_memstats_heap_alloc_bytes'),
+            residentBytes: value(families, 'process_resident_memory_bytes'),
+        };
+        return summary;
+    };
+
+}
@@ -0,0 +1,213 @@
+import type {IncomingMessage, ServerResponse} from 'node:http';
+import type {OpenPolicyAgent} from './index';
+import {isObject} from './internal';
+
+export namespace Receiver {
+
+    export type Options<P> = {
+        /**
+         * Called with every accepted upload. OPA receives `204` once the returned promise resolves, and `500`
+         * (so it retries the upload later) when it rejects.
+         */
+        handler: (payload: P) => void | Promise<void>;
+        /**
+         * Maximum number of uploads processed at once. Further uploads receive `503` with `Retry-After`,
+         * so OPA keeps them buffered and retries.
+         * @default 4
+         */
+        maxConcurrent?: number;
+        /**
+         * Maximum decompressed body size in bytes. Larger uploads receive `413`.
+         * @default 16777216 (16 MiB)
+         */
+        maxBodySize?: number;
+    }
+
+    /**
+     * Rejects an upload with an HTTP status code.
+     */
+    export class RejectedError extends Error {
+
+        constructor(public readonly status: number, message: string) {
+            super(message);
+        }
+
+    }
+
+    type Reply = { status: number, headers: Record<string, string>, body?: string };
+
+    /**
+     * Reads a body, decompressing it when gzip-encoded, and enforces the size limit on the decompressed bytes.
+     */
+    const read = async (body: ReadableStream<Uint8Array> | null, gzip: boolean, limit: number): Promise<string> => {
+        if (!body) return '';
+        const stream = gzip
+            ? body.pipeThrough(new DecompressionStream('gzip') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>)
+            : body;
+
+        const reader = stream.getReader();
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        try {
+            for (; ;) {
+                const {done, value} = await reader.read();
+                if (done) break;
+                size += value.length;
+                if (size > limit) {
+                    await reader.cancel();
+                    throw new RejectedError(413, `Body exceeds ${limit} bytes`);
+                }
+                chunks.push(value);
+            }
+        } catch (error) {
+            if (error instanceof RejectedError) throw error;
+            throw new RejectedError(400, `Malformed body: ${(error as Error).message}`);
+        }
+
+        const bytes = new Uint8Array(size);
+        chunks.reduce((offset, chunk) => (bytes.set(chunk, offset), offset + chunk.length), 0);
+        return new TextDecoder().decode(bytes);
+    };
+
+    /**
+     * Common plumbing for OPA's push-based plugins: decompression, validation, concurrency limits and status codes.
+     */
+    export abstract class Handler<P> {
+
+        private active = 0;
+
+        constructor(protected readonly options: Options<P>) {
+        }
+
+        /**
+         * Validates a parsed upload. Throws {@link RejectedError} for invalid uploads.
+         */
+        protected abstract parse(body: unknown): P;
+
+        private async handle(method: string, header: (name: string) => string | undefined, body: ReadableStream<Uint8Array> | null): Promise<Reply> {
+            if (method !== 'POST') return {status: 405, headers: {Allow: 'POST'}};
+            if (this.active >= (this.options.maxConcurrent ?? 4)) {
+                await body?.cancel();
+                return {status: 503, headers: {'Retry-After': '1'}};
+            }
+
+            this.active++;
+            try {
+                const gzip = /gzip/i.test(header('content-encoding') ?? '');
+                const text = await read(body, gzip, this.options.maxBodySize ?? 16 * 1024 * 1024);
+                let parsed: unknown;
+                try {
+                    parsed = JSON.parse(text);
+                } catch {
+                    throw new RejectedError(400, 'Body is not valid JSON');
+                }
+                const payload = this.parse(parsed);
+                try {
+                    await this.options.handler(payload);
+                } catch (error) {
+                    return {status: 500, headers: {'Content-Type': 'text/plain'}, body: (error as Error)?.message ?? 'Handler failed'};
+                }
+                return {status: 204, headers: {}};
+            } catch (error) {
+                if (!(error instanceof RejectedError)) throw error;
+                return {status: error.status, headers: {'Content-Type': 'text/plain'}, body: error.message};
+            } finally {
+                this.active--;
+            }
+        }
+
+        /**
+         * Node `http` request handler.
+         */
+        readonly node = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+            const header = (name: string) => {
+                const value = req.headers[name];
+                return Array.isArray(value) ? value.join(', ') : value;
+            };
+            const body = new ReadableStream<Uint8Array>({
+                async start(controller) {
+                    try {
+                        for await (const chunk of req) controller.enqueue(new Uint8Array(chunk));
+                        controller.close();
+                    } catch (error) {
+                        controller.error(error);
+                    }
+                },
+                cancel() {
+                    req.resume();
+                },
+            });
+            const reply = await this.handle(req.method ?? 'GET', header, body);
+            res.writeHead(reply.status, reply.headers);
+            res.end(reply.body);
+        };
+
+        /**
+         * Fetch API handler (`Request → Response`).
+         */
+        readonly fetch = async (request: Request): Promise<Response> => {
+            const reply = await this.handle(request.method, (name) => request.headers.get(name) ?? undefined, request.body);
+            return new Response(reply.body, {status: reply.status, headers: reply.headers});
+        };
+
+    }
+
+    /**
+     * Receives the gzip-compressed JSON arrays of decision events uploaded by OPA's `decision_logs` plugin.
+     * @example
+     * const receiver = new Receiver.DecisionLogs({handler: async (events) => store.insert(events)});
+     * http.createServer(receiver.node).listen(8080);
+     * // OPA: decision_logs: {service: receiver, resource: /logs}
+     */
+    export class DecisionLogs extends Handler<OpenPolicyAgent.DecisionLogEvent[]> {
+
+        protected parse(body: unknown): OpenPolicyAgent.DecisionLogEvent[] {
+            if (!Array.isArray(body)) throw new RejectedError(400, 'Expected a JSON array of decision events');
+            body.forEach((event, i) => {
+                const invalid = (field: string) => new RejectedError(400, `Event ${i}: invalid ${field}`);
+                if (!isObject(event)) throw invalid('event');
+                if (typeof event.decision_id !== 'string') throw invalid('decision_id');
+                if (typeof event.timestamp !== 'string') throw invalid('timestamp');
+                if (!isObject(event.labels)) throw invalid('labels');
+                if (event.path !== undefined && typeof event.path !== 'string') throw invalid('path');
+                for (const field of ['erased', 'masked'] as const) {
+                    const value = event[field];
+                    if (value !== undefined && !(Array.isArray(value) && value.every((item) => typeof item === 'string'))) throw invalid(field);
+                }
+                for (const field of ['bundles', 'metrics'] as const) {
+                    if (event[field] !== undefined && !isObject(event[field])) throw invalid(field);
+                }
+            });
+            return body as OpenPolicyAgent.DecisionLogEvent[];
+        }
+
+    }
+
+    /**
+     * Receives the status reports pushed by OPA's `status` plugin. Pair it with a `Status.Watcher`
+     * to turn reports into events.
+     * @example
+     * const watcher = new Status.Watcher((event) => console.log(event));
+     * const receiver = new Receiver.Status({handler: (report) => watcher.update(report)});
+     * // OPA: status: {service: receiver, resource: /status}
+     */
+    export class Status extends Handler<OpenPolicyAgent.StatusReport> {
+
+        protected parse(body: unknown): OpenPolicyAgent.StatusReport {
+            const invalid = (field: string) => new RejectedError(400, `Invalid ${field}`);
+            if (!isObject(body)) throw invalid('status report');
+            if (!isObject(body.labels)) throw invalid('labels');
+            for (const field of ['bundles', 'plugins'] as const) {
+                const value = body[field];
+                if (value === undefined) continue;
+                if (!isObject(value) || !Object.values(value).every(isObject)) throw invalid(field);
+            }
+            for (const field of ['discovery', 'decision_logs', 'metrics'] as const) {
+                if (body[field] !== undefined && !isObject(body[field])) throw invalid(field);
+            }
+            return body as unknown as OpenPolicyAgent.StatusReport;
+        }
+
+    }
+
+}
@@ -0,0 +1,48 @@
+export namespace Redaction {
+
+    /**
+     * Value that replaces redacted fields.
+     */
+    export const REDACTED = '[REDACTED]';
+
+    /**
+     * Splits a JSON pointer (RFC 6901) into unescaped reference tokens. `''` points to the whole document.
+     */
+    export const tokens = (pointer: string): string[] => {
+        if (pointer === '') return [];
+        if (!pointer.startsWith('/')) throw new Error(`Invalid JSON pointer: ${pointer}`);
+        return pointer.slice(1).split('/').map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+    };
+
+    const mask = (value: unknown, path: string[], replacement: unknown): unknown => {
+        if (path.length === 0) return replacement;
+        if (value === null || typeof value !== 'object') return value;
+        const [token, ...rest] = path;
+
+        if (Array.isArray(value)) {
+            if (token === '*') return value.map((item) => mask(item, rest, replacement));
+            const index = Number(token);
+            if (!/^\d+$/.test(token) || index >= value.length) return value;
+            const copy = [...value];
+            copy[index] = mask(value[index], rest, replacement);
+            return copy;
+        }
+
+        const record = value as Record<string, unknown>;
+        if (token === '*') return Object.fromEntries(Object.entries(record).map(([key, item]) => [key, mask(item, rest, replacement)]));
+        if (!Object.prototype.hasOwnProperty.call(record, token)) return value;
+        return {...record, [token]: mask(record[token], rest, replacement)};
+    };
+
+    /**
+     * Returns a copy of a document with the values at the given JSON pointers replaced. The document is not modified.
+     * A `*` token matches every member of an object or array, e.g. `/input/users/*\/email`.
+     * Pointers to missing values are ignored.
+     * @param document - Document to redact.
+     * @param pointers - JSON pointers, e.g. `/input/token`.
+     * @param replacement - Replacement value. @default '[REDACTED]'
+     */
+    export const apply = <T>(document: T, pointers: string[], replacement: unknown = REDACTED): T =>
+        pointers.reduce<unknown>((current, pointer) => mask(current, tokens(pointer), replacement), document) as T;
+
+}
@@ -0,0 +1,175 @@
+import type {OpenPolicyAgent} from './index';
+import {delay} from './internal';
+
+export namespace Status {
+
+    /**
+     * A change between two status reports.
+     */
+    export type Event =
+        | { type: 'bundle_activated', bundle: string, revision?: string, previous?: string }
+        | { type: 'bundle_activation_failed', bundle: string, code: string, message?: string, errors?: OpenPolicyAgent.OPAError[] }
+        | { type: 'bundle_download_failed', bundle: string, code: string, message?: string, http_code?: number }
+        | { type: 'bundle_recovered', bundle: string, revision?: string }
+        | { type: 'bundle_removed', bundle: string }
+        | { type: 'plugin_state_changed', plugin: string, from?: string, to: string, message?: string }
+        | { type: 'discovery_activated', revision?: string, previous?: string }
+        | { type: 'discovery_failed', code: string, message?: string }
+        | { type: 'decision_logs_failed', code: string, message?: string, http_code?: number }
+        | { type: 'decision_logs_recovered' };
+
+    export type Listener = (event: Event, report: OpenPolicyAgent.StatusReport) => void;
+
+    export type PollOptions = {
+        /**
+         * Delay between two polls, in milliseconds.
+         * @default 10000
+         */
+        interval?: number;
+        /**
+         * Stops polling when aborted.
+         */
+        signal?: AbortSignal;
+        /**
+         * Called when a poll fails. Without it, the first failure rejects the promise returned by {@link Watcher.poll}.
+         */
+        onError?: (error: unknown) => void;
+    }
+
+    /**
+     * A failed download leaves `last_successful_download` behind `last_request`, or records the HTTP status.
+     */
+    const failure = (bundle: string, status: OpenPolicyAgent.BundleStatus): Event =>
+        status.http_code !== undefined || status.last_successful_download !== status.last_request
+            ? {type: 'bundle_download_failed', bundle, code: status.code!, message: status.message, http_code: status.http_code}
+            : {type: 'bundle_activation_failed', bundle, code: status.code!, message: status.message, errors: status.errors};
+
+    const diffBundle = (name: string, previous: OpenPolicyAgent.BundleStatus | undefined, current: OpenPolicyAgent.BundleStatus): Event[] => {
+        const events: Event[] = [];
+        if (current.active_revision !== undefined && (
+            current.active_revision !== previous?.active_revision ||
+            current.last_successful_activation !== previous?.last_successful_activation
+        )) {
+            events.push({type: 'bundle_activated', bundle: name, revision: current.active_revision, previous: previous?.active_revision});
+        }
+        if (current.code && (current.code !== previous?.code || current.message !== previous?.message)) {
+            events.push(failure(name, current));
+        } else if (!current.code && previous?.code) {
+            events.push({type: 'bundle_recovered', bundle: name, revision: current.active_revision});
+        }
+        return events;
+    };
+
+    /**
+     * Compares two status reports and returns the changes, in a stable order: bundles, discovery, decision logs, plugins.
+     * Failures are reported once, when their code or message changes, not on every report that still carries them.
+     * With no previous report, activations, failures and plugins that are not `OK` are reported.
+     * @param previous - Previous report, or `undefined` for the first one.
+     * @param current - Current report.
+     */
+    export const diff = (previous: OpenPolicyAgent.StatusReport | undefined, current: OpenPolicyAgent.StatusReport): Event[] => {
+        const events: Event[] = [];
+
+        const bundles = current.bundles ?? {};
+        for (const [name, status] of Object.entries(bundles)) {
+            events.push(...diffBundle(name, previous?.bundles?.[name], status));
+        }
+        for (const name of Object.keys(previous?.bundles ?? {})) {
+            if (!(name in bundles)) events.push({type: 'bundle_removed', bundle: name});
+        }
+
+        if (current.discovery) {
+            for (const event of diffBundle(current.discovery.name, previous?.discovery, current.discovery)) {
+                if (event.type === 'bundle_activated') {
+                    events.push({type: 'discovery_activated', revision: event.revision, previous: event.previous});
+                } else if (event.type === 'bundle_activation_failed' || event.type === 'bundle_download_failed') {
+                    events.push({type: 'discovery_failed', code: event.code, message: event.message});
+                }
+            }
+        }
+
+        const logs = current.decision_logs;
+        const previousLogs = previous?.decision_logs;
+        if (logs?.code && (logs.code !== previousLogs?.code || logs.message !== previousLogs?.message)) {
+            events.push({type: 'decision_logs_failed', code: logs.code, message: logs.message, http_code: logs.http_code});
+        } else if (!logs?.code && previousLogs?.code) {
+            events.push({type: 'decision_logs_recovered'});
+        }
+
+        for (const [name, status] of Object.entries(current.plugins ?? {})) {
+            const from = previous?.plugins?.[name]?.state;
+            if (status.state !== from && (from !== undefined || status.state !== 'OK')) {
+                events.push({type: 'plugin_state_changed', plugin: name, from, to: status.state, message: status.message});
+            }
+        }
+
+        return events;
+    };
+
+    /**
+     * Tracks the latest status report and notifies listeners of changes. Feed it pushed reports
+     * (see {@link Receiver.Status}) or let it poll the Status API; both produce the same events.
+     * @example
+     * const watcher = new Status.Watcher((event) => {
+     *     if (event.type === 'plugin_state_changed' && event.to !== 'OK') alert(event);
+     * });
+     * await watcher.poll(client, {interval: 5000, signal});
+     */
+    export class Watcher {
+
+        private readonly listeners = new Set<Listener>();
+        private last?: OpenPolicyAgent.StatusReport;
+
+        constructor(listener?: Listener) {
+            if (listener) this.listeners.add(listener);
+        }
+
+        /**
+         * Latest report seen.
+         */
+        get current(): OpenPolicyAgent.StatusReport | undefined {
+            return this.last;
+        }
+
+        /**
+         * Adds a listener. Returns a function that removes it.
+         */
+        on(listener: Listener): () => void {
+            this.listeners.add(listener);
+            return () => this.listeners.delete(listener);
+        }
+
+        /**
+         * Records a report, notifies listeners of the changes and returns them.
+         * @param report - A pushed report, or a Status API response.
+         */
+        update(report: OpenPolicyAgent.StatusReport | OpenPolicyAgent.GetStatusResponse): Event[] {
+            const current = 'result' in report ? report.result : report;
+            const events = diff(this.last, current);
+            this.last = current;
+            for (const event of events) {
+                for (const listener of this.listeners) listener(event, current);
+            }
+            return events;
+        }
+
+        /**
+         * Polls the Status API until the signal aborts.
+         */
+        async poll(client: OpenPolicyAgent.Client, options: PollOptions = {}): Promise<void> {
+            const {interval = 10_000, signal, onError} = options;
+            while (!signal?.aborted) {
+                try {
+                    this.update(await client.status.get(false, {signal}));
+                } catch (error) {
+                    if (signal?.aborted) return;
+                    if (!onError) throw error;
+                    onError(error);
+                }
+                await delay(interval, signal);
+            }
+        }
+
+    }
+
+}
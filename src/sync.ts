@@ -0,0 +1,482 @@
+import type {OpenPolicyAgent} from './index';
+import {Patch} from './patch';
+import {Path} from './path';
+import {canonicalize, delay} from './internal';
+
+export namespace Sync {
+
+    /**
+     * Produces the desired document tree, e.g. from your own database. Called on every tick.
+     */
+    export type Source = () => OpenPolicyAgent.Document | Promise<OpenPolicyAgent.Document>;
+
+    export type Options = {
+        /**
+         * Client used to read and write OPA's data.
+         */
+        client: OpenPolicyAgent.Client;
+        /**
+         * Path of the synchronized tree, e.g. `authz/bindings`. The engine owns everything below it.
+         */
+        root: Path.Like;
+        /**
+         * Per-call request options for every read and write.
+         */
+        request?: OpenPolicyAgent.RequestOptions;
+    }
+
+    /**
+     * How a sync changes OPA's data: nothing, a JSON Patch, a full `data.put`, or a `data.delete` of the root.
+     */
+    export type Action = 'none' | 'patch' | 'put' | 'delete';
+
+    export type Report = {
+        /**
+         * Encoded root path.
+         */
+        root: string;
+        action: Action;
+        /**
+         * Operations turning OPA's document into the desired one, relative to the root.
+         */
+        operations: Patch.Operation[];
+        /**
+         * Whether the change was sent to OPA. `false` for dry runs and when nothing changed.
+         */
+        applied: boolean;
+        /**
+         * OPA no longer had the tree, although this engine pushed it before (e.g. OPA restarted), so the full state was pushed again.
+         */
+        restored: boolean;
+        /**
+         * ISO timestamp of the sync.
+         */
+        timestamp: string;
+    }
+
+    export type SyncOptions = {
+        /**
+         * Compute the report without sending any change.
+         * @default false
+         */
+        dryRun?: boolean;
+        /**
+         * Cancels the sync when aborted.
+         */
+        signal?: AbortSignal;
+    }
+
+    export type RunOptions = SyncOptions & {
+        /**
+         * Delay between two syncs, in milliseconds.
+         * @default 30000
+         */
+        interval?: number;
+        /**
+         * Skip reading the whole tree from OPA while the source produces the same document as at the last sync.
+         * OPA is then only asked whether the root still exists, which catches restarts but not changes made by other writers.
+         * @default true
+         */
+        changeDetection?: boolean;
+        /**
+         * Called after each sync with its report.
+         */
+        onSync?: (report: Report) => void;
+        /**
+         * Called when a sync fails. Without it, the first failure rejects the promise returned by {@link Engine.run}.
+         */
+        onError?: (error: unknown) => void;
+    }
+
+    /**
+     * Reconciles a document tree in OPA with a desired state kept elsewhere, sending only what differs.
+     * A patch is sent when it is smaller than the document; otherwise the document is put whole.
+     * @example
+     * const engine = new Sync.Engine({client: opa, root: 'authz/bindings'});
+     * console.log(Sync.format(await engine.sync(await loadBindings(), {dryRun: true})));
+     * await engine.run(loadBindings, {interval: 60_000, signal, onError: console.error});
+     */
+    export class Engine {
+
+        private readonly segments: string[];
+        /**
+         * Encoded root, for reports only: client calls take the segments, as they encode paths themselves.
+         */
+        private readonly root: string;
+        private pushed = false;
+        private last?: string;
+
+        constructor(private readonly options: Options) {
+            this.segments = Path.segments(options.root);
+            if (!this.segments.length) throw new Path.InvalidPathError('', 'the root document cannot be synchronized');
+            this.root = Path.encode(this.segments);
+        }
+
+        private request(signal?: AbortSignal): OpenPolicyAgent.RequestOptions {
+            return {...this.options.request, ...(signal && {signal})};
+        }
+
+        /**
+         * Reads OPA's document at the root, compares it with the desired one and, unless `dryRun`, sends the difference.
+         * @param desired - Desired document at the root. `undefined` deletes the root.
+         * @param options - Sync options.
+         */
+        async sync(desired: OpenPolicyAgent.Document, options: SyncOptions = {}): Promise<Report> {
+            const {client} = this.options;
+            const request = this.request(options.signal);
+            const {result: current} = await client.data.get(this.segments, {}, {...request, cache: false, audit: false, strict: false});
+
+            const operations = Patch.diff(current, desired);
+            let action: Action = 'none';
+            if (operations.length) {
+                if (desired === undefined) action = 'delete';
+                else if (current === undefined || operations.some((operation) => operation.path === '')) action = 'put';
+                else action = JSON.stringify(operations).length < JSON.stringify(desired).length ? 'patch' : 'put';
+            }
+            const restored = current === undefined && desired !== undefined && this.pushed;
+
+            if (!options.dryRun) {
+                if (action === 'patch') await client.data.patch(this.segments, operations, request);
+                else if (action === 'put') await client.data.put(this.segments, desired, false, false, request);
+                else if (action === 'delete') await client.data.delete(this.segments, false, request);
+                this.pushed = desired !== undefined;
+                this.last = canonicalize(desired);
+            }
+
+            return {
+                root: this.root,
+                action,
+                operations,
+                applied: !options.dryRun && action !== 'none',
+                restored,
+                timestamp: new Date().toISOString(),
+            };
+        }
+
+        /**
+         * Whether OPA still has a document at the root, without transferring it.
+         */
+        private async present(signal?: AbortSignal): Promise<boolean> {
+            const query = `_ = ${Path.toRef(this.segments)}`;
+            const response = await this.options.client.query.adhoc(query, undefined, false, undefined, false, this.request(signal));
+            return (response.result ?? []).length > 0;
+        }
+
+        /**
+         * Syncs the source's document now, skipping the full comparison when change detection finds nothing to do.
+         * @param source - Desired state.
+         * @param options - Run options; `interval` is ignored.
+         */
+        async tick(source: Source, options: RunOptions = {}): Promise<Report> {
+            const desired = await source();
+            const unchanged = options.changeDetection !== false && !options.dryRun && this.last === canonicalize(desired);
+            if (unchanged && (desired === undefined || await this.present(options.signal))) {
+                return {root: this.root, action: 'none', operations: [], applied: false, restored: false, timestamp: new Date().toISOString()};
+            }
+            return this.sync(desired, options);
+        }
+
+        /**
+         * Syncs the source's document every `interval` until the signal aborts.
+         */
+        async run(source: Source, options: RunOptions = {}): Promise<void> {
+            const {interval = 30_000, signal, onSync, onError} = options;
+            while (!signal?.aborted) {
+                try {
+                    const report = await this.tick(source, options);
+                    onSync?.(report);
+                } catch (error) {
+                    if (signal?.aborted) return;
+                    if (!onError) throw error;
+                    onError(error);
+                }
+                await delay(interval, signal);
+            }
+        }
+
+    }
+
+    const SYMBOLS: Record<PolicyAction, string> = {create: '+', update: '~', delete: '-', unchanged: ' '};
+
+    /**
+     * Formats a report as a readable diff: one line per operation, `+` for additions, `-` for removals and `~` for replacements.
+     * A policy plan is formatted the same way, one line per module in the order it is applied.
+     */
+    export const format = (report: Report | PolicyPlan): string => {
+        if ('changes' in report) {
+            const counts = (['create', 'update', 'delete', 'unchanged'] as const)
+                .map((action) => `${report.changes.filter((change) => change.action === action).length} to ${action}`);
+            return [`${report.prefix}: ${counts.join(', ').replace('to unchanged', 'unchanged')}`,
+                ...report.changes.map((change) => `${SYMBOLS[change.action]} ${change.id}`)].join('\n');
+        }
+        const dryRun = report.action !== 'none' && !report.applied;
+        const header = `${report.root}: ${report.action}${dryRun ? ' (dry run)' : ''}${report.restored ? ' (restored)' : ''}`;
+        const lines = report.operations.map((operation) => {
+            const path = `${report.root}${operation.path}`;
+            switch (operation.op) {
+                case 'add':
+                    return `+ ${path} ${JSON.stringify(operation.value)}`;
+                case 'remove':
+                    return `- ${path}`;
+                case 'replace':
+                    return `~ ${path} ${JSON.stringify(operation.value)}`;
+                default:
+                    return `  ${operation.op} ${path}`;
+            }
+        });
+        return [header, ...lines].join('\n');
+    };
+
+    // =============================================================================
+    // Policies
+    // =============================================================================
+
+    /**
+     * Rego sources keyed by module ID, without the managed prefix (e.g. `authz/allow.rego`).
+     */
+    export type Modules = Record<string, string>;
+
+    export type PolicyAction = 'create' | 'update' | 'delete' | 'unchanged';
+
+    export type PolicyChange = {
+        /**
+         * Policy ID in OPA, including the managed prefix.
+         */
+        id: string;
+        action: PolicyAction;
+        /**
+         * Desired source. Absent for deletions.
+         */
+        raw?: string;
+        /**
+         * Source currently loaded in OPA. Absent for creations.
+         */
+        previous?: string;
+    }
+
+    export type PolicyPlan = {
+        prefix: string;
+        /**
+         * Changes in the order they are applied, followed by the unchanged modules.
+         */
+        changes: PolicyChange[];
+    }
+
+    export type PolicyOptions = {
+        /**
+         * Client used to list and write policies.
+         */
+        client: OpenPolicyAgent.Client;
+        /**
+         * Prefix of the policy IDs owned by this sync, e.g. `gitops/`. Policies outside it are never updated or deleted.
+         */
+        prefix: string;
+        /**
+         * Per-call request options for every request.
+         */
+        request?: OpenPolicyAgent.RequestOptions;
+    }
+
+    export type ReadOptions = {
+        /**
+         * Include `*_test.rego` files.
+         * @default false
+         */
+        tests?: boolean;
+    }
+
+    /**
+     * Thrown by {@link Policies.apply} when a change cannot be applied. The modules that were already changed
+     * are restored first; `rolledBack` is `false` when that failed too, leaving OPA with a partial update.
+     */
+    export class PolicySyncError extends Error {
+
+        constructor(public readonly change: PolicyChange, public readonly cause: unknown, public readonly rolledBack: boolean) {
+            super(`Policy sync failed to ${change.action} ${change.id}${rolledBack ? '' : ' and could not roll back'}: ${cause instanceof Error ? cause.message : String(cause)}`);
+        }
+
+    }
+
+    /**
+     * Reads the `.rego` files below a directory, keyed by their slash-separated path relative to it.
+     * Hidden files and directories (e.g. `.git`) are skipped.
+     * @param directory - Directory to read.
+     * @param options - Read options.
+     */
+    export const readPolicies = async (directory: string, options: ReadOptions = {}): Promise<Modules> => {
+        const fs = await import('node:fs/promises');
+        const {join, relative, sep} = await import('node:path');
+        const modules: Modules = {};
+
+        const walk = async (current: string): Promise<void> => {
+            const entries = (await fs.readdir(current, {withFileTypes: true})).sort((a, b) => a.name.localeCompare(b.name));
+            for (const entry of entries) {
+                if (entry.name.startsWith('.')) continue;
+                const path = join(current, entry.name);
+                if (entry.isDirectory()) await walk(path);
+                else if (entry.isFile() && entry.name.endsWith('.rego') && (options.tests || !entry.name.endsWith('_test.rego'))) {
+                    modules[relative(directory, path).split(sep).join('/')] = await fs.readFile(path, 'utf8');
+                }
+            }
+        };
+        await walk(directory);
+        return modules;
+    };
+
+    const REFERENCE = /\bdata((?:\.[a-zA-Z_][a-zA-Z0-9_]*|\[\s*"(?:[^"\\]|\\.)*"\s*])+)/g;
+
+    /**
+     * Reads the package a module declares and the `data` documents it refers to, from its source.
+     */
+    const dependencies = (raw: string): { pkg?: string[], refs: string[][] } => {
+        const declared = /^\s*package\s+(\S+)/m.exec(raw)?.[1];
+        let pkg: string[] | undefined;
+        try {
+            pkg = declared ? Path.fromPackage(declared) : undefined;
+        } catch {
+            pkg = undefined;
+        }
+        const refs: string[][] = [];
+        for (const match of raw.matchAll(REFERENCE)) {
+            try {
+                refs.push(Path.parseRef(`data${match[1]}`));
+            } catch {
+                // Not a ground ref: cannot tell which package it needs.
+            }
+        }
+        return {pkg, refs};
+    };
+
+    const related = (a: string[], b: string[]): boolean => a.slice(0, b.length).every((segment, i) => segment === b[i]);
+
+    /**
+     * Orders modules so that those providing a package come before the modules referring to it.
+     * Cycles and unrelated modules keep their ID order.
+     */
+    const order = (changes: PolicyChange[], source: (change: PolicyChange) => string): PolicyChange[] => {
+        const info = new Map(changes.map((change) => [change, dependencies(source(change))]));
+        const needs = (change: PolicyChange, other: PolicyChange): boolean => {
+            const {pkg} = info.get(other)!;
+            return change !== other && pkg !== undefined && info.get(change)!.refs.some((ref) => related(ref, pkg) || related(pkg, ref));
+        };
+
+        const sorted: PolicyChange[] = [];
+        const remaining = [...changes].sort((a, b) => a.id.localeCompare(b.id));
+        while (remaining.length) {
+            const index = remaining.findIndex((change) => !remaining.some((other) => needs(change, other)));
+            sorted.push(...remaining.splice(Math.max(0, index), 1));
+        }
+        return sorted;
+    };
+
+    const isCompileError = (error: unknown): boolean =>
+        (error as { errors?: OpenPolicyAgent.OPAError[] })?.errors?.some((item) => item.code?.startsWith('rego_')) ?? false;
+
+    type Step = { change: PolicyChange, run: () => Promise<unknown> };
+
+    /**
+     * Runs steps in order. A step that fails to compile is retried after the others, as long as a pass makes progress:
+     * e.g. a rule moved between two modules only compiles once the old module no longer defines it.
+     */
+    const execute = async (steps: Step[]): Promise<{ done: Step[], failed?: { step: Step, error: unknown } }> => {
+        const done: Step[] = [];
+        let pending = steps;
+        while (pending.length) {
+            const deferred: Step[] = [];
+            let failed: { step: Step, error: unknown } | undefined;
+            for (const step of pending) {
+                try {
+                    await step.run();
+                    done.push(step);
+                } catch (error) {
+                    if (!isCompileError(error)) return {done, failed: {step, error}};
+                    deferred.push(step);
+                    failed ??= {step, error};
+                }
+            }
+            if (deferred.length === pending.length) return {done, failed};
+            pending = deferred;
+        }
+        return {done};
+    };
+
+    /**
+     * Syncs the policies under an ID prefix with a set of modules, e.g. the `.rego` files of a repository.
+     * @example
+     * const policies = new Sync.Policies({client: opa, prefix: 'gitops/'});
+     * const plan = await policies.plan(await Sync.readPolicies('./policies'));
+     * console.log(Sync.format(plan));
+     * await policies.apply(plan);
+     */
+    export class Policies {
+
+        constructor(private readonly options: PolicyOptions) {
+            if (!options.prefix) throw new Error('A policy sync needs a non-empty prefix');
+        }
+
+        /**
+         * Compares the modules with the policies loaded under the prefix, by raw source.
+         * @param modules - Desired modules, keyed by ID without the prefix.
+         */
+        async plan(modules: Modules): Promise<PolicyPlan> {
+            const {client, prefix, request} = this.options;
+            const loaded = new Map((await client.policy.list(request)).result
+                .filter((policy) => policy.id.startsWith(prefix))
+                .map((policy) => [policy.id, policy.raw]));
+
+            const puts: PolicyChange[] = [];
+            const unchanged: PolicyChange[] = [];
+            for (const [name, raw] of Object.entries(modules)) {
+                const id = `${prefix}${name}`;
+                const previous = loaded.get(id);
+                if (previous === undefined) puts.push({id, action: 'create', raw});
+                else if (previous === raw) unchanged.push({id, action: 'unchanged', raw, previous});
+                else puts.push({id, action: 'update', raw, previous});
+                loaded.delete(id);
+            }
+            const deletes = [...loaded].map(([id, previous]): PolicyChange => ({id, action: 'delete', previous}));
+
+            return {
+                prefix,
+                changes: [
+                    ...order(puts, (change) => change.raw!),
+                    // Modules referring to a deleted package go before it
+                    ...order(deletes, (change) => change.previous!).reverse(),
+                    ...unchanged.sort((a, b) => a.id.localeCompare(b.id)),
+                ],
+            };
+        }
+
+        /**
+         * Applies a plan in order. When a change fails, the changes already applied are undone, restoring the previous
+         * modules, and a {@link PolicySyncError} is thrown. Plans go stale: apply them soon after computing them.
+         * @param plan - Plan computed by {@link plan}.
+         * @returns The applied changes.
+         */
+        async apply(plan: PolicyPlan): Promise<PolicyChange[]> {
+            const {client, prefix, request} = this.options;
+            const changes = plan.changes.filter((change) => change.action !== 'unchanged');
+            for (const change of changes) {
+                if (!change.id.startsWith(prefix)) throw new Error(`Policy ${change.id} is outside the managed prefix ${prefix}`);
+            }
+
+            const {done, failed} = await execute(changes.map((change) => ({
+                change,
+                run: () => change.action === 'delete'
+                    ? client.policy.delete(change.id, false, false, request)
+                    : client.policy.put(change.id, change.raw!, false, false, request),
+            })));
+            if (!failed) return done.map((step) => step.change);
+
+            const rollback = await execute([...done].reverse().map(({change}) => ({
+                change,
+                run: () => change.action === 'create'
+                    ? client.policy.delete(change.id, false, false, request)
+                    : client.policy.put(change.id, change.previous!, false, false, request),
+            })));
+            throw new PolicySyncError(failed.step.change, failed.error, !rollback.failed);
+        }
+
+    }
+
+}
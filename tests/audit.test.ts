@@ -0,0 +1,211 @@
+import {describe, it, expect, vi, afterEach, beforeEach} from 'vitest';
+import {mkdtemp, readdir, readFile, rm} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {Audit, OPAClient} from '../src';
+
+const entry = (overrides: Partial<Audit.Entry> = {}): Audit.Entry => ({
+    timestamp: '2026-01-01T00:00:00.000Z',
+    path: 'authz/allow',
+    input: {user: {name: 'alice', email: 'alice@example.com'}},
+    result: true,
+    decision_id: 'd1',
+    ...overrides,
+});
+
+const memory = () => {
+    const written: Audit.Entry[][] = [];
+    return {written, sink: {write: (entries: Audit.Entry[]) => void written.push(entries)}};
+};
+
+describe('Audit', () => {
+    describe('Log', () => {
+        it('masks entries and writes them in the background', async () => {
+            const {written, sink} = memory();
+            const log = new Audit.Log({sink, mask: ['/input/user/email', '/context/user']});
+
+            log.record(entry({context: {request_id: 'r1', user: 'alice'}}));
+            expect(written).toEqual([]);
+
+            await log.flush();
+            expect(written).toEqual([[entry({
+                input: {user: {name: 'alice', email: '[REDACTED]'}},
+                context: {request_id: 'r1', user: '[REDACTED]'},
+            })]]);
+        });
+
+        it('writes in batches, one write at a time', async () => {
+            let active = 0;
+            let overlap = false;
+            const sizes: number[] = [];
+            const log = new Audit.Log({
+                batchSize: 2,
+                sink: {
+                    write: async (entries) => {
+                        overlap ||= active++ > 0;
+                        sizes.push(entries.length);
+                        await new Promise((resolve) => setTimeout(resolve, 1));
+                        active--;
+                    },
+                },
+            });
+
+            for (let i = 0; i < 5; i++) log.record(entry({decision_id: `d${i}`}));
+            await log.flush();
+            expect(sizes).toEqual([2, 2, 1]);
+            expect(overlap).toBe(false);
+        });
+
+        it('drops entries when the buffer is full and reports sink failures', async () => {
+            const onError = vi.fn();
+            const log = new Audit.Log({
+                bufferSize: 1,
+                onError,
+                sink: {write: () => Promise.reject(new Error('disk full'))},
+            });
+
+            log.record(entry());
+            log.record(entry({decision_id: 'd2'}));
+            expect(log.droppedEntries).toBe(1);
+            expect(onError).toHaveBeenCalledWith(new Error('Audit buffer is full'), [entry({decision_id: 'd2'})]);
+
+            await log.flush();
+            expect(onError).toHaveBeenLastCalledWith(new Error('disk full'), [entry()]);
+        });
+
+        it('rejects invalid mask pointers up front', () => {
+            expect(() => new Audit.Log({sink: memory().sink, mask: ['input/token']})).toThrow('Invalid JSON pointer: input/token');
+        });
+
+        it('reports entries that cannot be masked instead of throwing', () => {
+            const onError = vi.fn();
+            const log = new Audit.Log({sink: memory().sink, mask: ['/input/token'], onError});
+            const input = {get token(): string { throw new Error('unreadable'); }};
+
+            expect(() => log.record(entry({input}))).not.toThrow();
+            expect(log.droppedEntries).toBe(1);
+            expect(onError).toHaveBeenCalledWith(new Error('unreadable'), []);
+        });
+
+        it('flushes and closes the sink on close', async () => {
+            const close = vi.fn();
+            const {written, sink} = memory();
+            const log = new Audit.Log({sink: {...sink, close}});
+
+            log.record(entry());
+            await log.close();
+            expect(written).toHaveLength(1);
+            expect(close).toHaveBeenCalled();
+
+            log.record(entry());
+            expect(log.droppedEntries).toBe(1);
+        });
+    });
+
+    describe('FileSink', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await mkdtemp(join(tmpdir(), 'opa-audit-'));
+        });
+
+        afterEach(async () => {
+            await rm(directory, {recursive: true, force: true});
+        });
+
+        it('appends JSON lines', async () => {
+            const path = join(directory, 'decisions.jsonl');
+            const sink = new Audit.FileSink(path);
+            await sink.write([entry(), entry({decision_id: 'd2'})]);
+            await sink.write([entry({decision_id: 'd3'})]);
+
+            const lines = (await readFile(path, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+            expect(lines.map((line) => line.decision_id)).toEqual(['d1', 'd2', 'd3']);
+        });
+
+        it('rotates by size and keeps at most maxFiles rotated files', async () => {
+            const path = join(directory, 'decisions.jsonl');
+            const line = `${JSON.stringify(entry())}\n`.length;
+            const sink = new Audit.FileSink(path, {maxBytes: line * 2, maxFiles: 2});
+
+            for (let i = 0; i < 9; i++) await sink.write([entry()]);
+
+            const files = (await readdir(directory)).sort();
+            expect(files).toHaveLength(3);
+            expect(files[0]).toBe('decisions.jsonl');
+            expect(files.slice(1).every((name) => /^decisions\.jsonl\.\d{4}-\d{2}-\d{2}T/.test(name))).toBe(true);
+            expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(1);
+        });
+
+        it('rotates by age', async () => {
+            const path = join(directory, 'decisions.jsonl');
+            const sink = new Audit.FileSink(path, {maxAge: 0});
+            await sink.write([entry()]);
+            await sink.write([entry()]);
+            expect(await readdir(directory)).toHaveLength(2);
+        });
+
+        it('keeps every rotated file when rotations share a timestamp', async () => {
+            vi.useFakeTimers({toFake: ['Date'], now: new Date('2026-01-01T00:00:00Z')});
+            try {
+                const path = join(directory, 'decisions.jsonl');
+                const sink = new Audit.FileSink(path, {maxBytes: 1});
+                for (let i = 0; i < 4; i++) await sink.write([entry({decision_id: `d${i}`})]);
+
+                const files = await readdir(directory);
+                expect(files.sort()).toEqual([
+                    'decisions.jsonl',
+                    'decisions.jsonl.2026-01-01T00-00-00-000Z',
+                    'decisions.jsonl.2026-01-01T00-00-00-000Z-1',
+                    'decisions.jsonl.2026-01-01T00-00-00-000Z-2',
+                ]);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+
+    describe('client integration', () => {
+        it('records data.get and data.post decisions with caller context, including cache hits', async () => {
+            const transport = vi.fn(async () => new Response(JSON.stringify({result: true, decision_id: 'd1'}), {
+                status: 200, headers: {'Content-Type': 'application/json'},
+            }));
+            const {written, sink} = memory();
+            const audit = new Audit.Log({sink, mask: ['/input/token']});
+            const client = new OPAClient({baseUrl: 'http://localhost:8181', fetch: transport, audit, cache: {ttl: 60_000}});
+
+            await client.authorize('authz/allow', {token: 'secret'}, {audit: {request_id: 'r1'}});
+            await client.data.post('authz/allow', {input: {token: 'secret'}});
+            await client.data.get('authz/allow', {input: {token: 'secret'}}, {audit: false});
+            await audit.flush();
+
+            const entries = written.flat();
+            expect(entries).toHaveLength(2);
+            expect(entries[0]).toEqual({
+                timestamp: expect.any(String),
+                path: 'authz/allow',
+                input: {token: '[REDACTED]'},
+                result: true,
+                decision_id: 'd1',
+                context: {request_id: 'r1'},
+            });
+            expect(entries[1]).not.toHaveProperty('context');
+            expect(entries[1]).toMatchObject({decision_id: 'd1', reused: 'cache'});
+        });
+
+        it('marks decisions shared by coalesced calls', async () => {
+            const transport = vi.fn(async () => new Response(JSON.stringify({result: true, decision_id: 'd1'}), {
+                status: 200, headers: {'Content-Type': 'application/json'},
+            }));
+            const {written, sink} = memory();
+            const audit = new Audit.Log({sink});
+            const client = new OPAClient({baseUrl: 'http://localhost:8181', fetch: transport, audit, coalesce: true});
+
+            await Promise.all([client.data.get('authz/allow'), client.data.get('authz/allow')]);
+            await audit.flush();
+
+            expect(transport).toHaveBeenCalledTimes(1);
+            expect(written.flat().map((entry) => entry.reused)).toEqual([undefined, 'coalesced']);
+        });
+    });
+});
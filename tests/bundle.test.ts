@@ -0,0 +1,248 @@
+import {describe, it, expect, vi} from 'vitest';
+import {createHash, generateKeyPairSync} from 'node:crypto';
+import {Bundle, OPAClient} from '../src';
+
+const decoder = new TextDecoder();
+
+describe('Bundle', () => {
+    const builder = () => new Bundle.Builder()
+        .revision('v1')
+        .roots('authz', 'roles')
+        .metadata({team: 'platform'})
+        .data('roles', {admin: ['alice']})
+        .data('roles/readers', {list: ['bob']})
+        .module('authz/policy.rego', 'package authz\n\nallow if input.user in data.roles.admin\n');
+
+    it('writes manifest, data files and modules', async () => {
+        const files = await Bundle.unpack(await builder().build());
+
+        expect(files.map((file) => file.path)).toEqual([
+            '.manifest',
+            'roles/data.json',
+            'roles/readers/data.json',
+            'authz/policy.rego',
+        ]);
+        expect(JSON.parse(decoder.decode(files[0].content))).toEqual({
+            revision: 'v1',
+            roots: ['authz', 'roles'],
+            metadata: {team: 'platform'},
+        });
+    });
+
+    it('reads a bundle back into typed contents', async () => {
+        const contents = await Bundle.read(await builder().build());
+
+        expect(contents).toEqual(builder().toContents());
+        expect(Bundle.document(contents)).toEqual({roles: {admin: ['alice'], readers: {list: ['bob']}}});
+    });
+
+    it('builds identical archives for identical contents', async () => {
+        expect(await builder().build()).toEqual(await builder().build());
+    });
+
+    it('handles paths longer than 100 bytes', async () => {
+        const path = `${'nested/'.repeat(20)}policy.rego`;
+        const contents = await Bundle.read(await new Bundle.Builder().module(path, 'package nested').build());
+        expect(contents.modules[0].path).toBe(path);
+    });
+
+    it('rejects data and packages outside of the roots', () => {
+        expect(() => Bundle.toFiles(new Bundle.Builder().roots('authz').data('other', {}).toContents()))
+            .toThrow("data.json at 'other' is outside of the bundle roots");
+        expect(() => Bundle.toFiles(new Bundle.Builder().roots('authz').module('x.rego', 'package other').toContents()))
+            .toThrow('x.rego: package other is outside of the bundle roots');
+    });
+
+    it('rejects module paths without the .rego extension', () => {
+        expect(() => new Bundle.Builder().module('policy.txt', 'package x')).toThrow();
+    });
+
+    describe('signing', () => {
+        const rsa = generateKeyPairSync('rsa', {modulusLength: 2048});
+        const ec = generateKeyPairSync('ec', {namedCurve: 'P-256'});
+        const pem = (key: any, type: 'pkcs8' | 'spki') => key.export({format: 'pem', type}) as string;
+
+        const keys: Record<string, Bundle.VerificationKey> = {
+            hmac: {algorithm: 'HS256', key: 'secret'},
+            rsa: {algorithm: 'RS256', key: pem(rsa.publicKey, 'spki')},
+            ec: {algorithm: 'ES256', key: pem(ec.publicKey, 'spki')},
+        };
+
+        it.each([
+            ['HS256', 'hmac', 'secret'],
+            ['RS256', 'rsa', pem(rsa.privateKey, 'pkcs8')],
+            ['ES256', 'ec', pem(ec.privateKey, 'pkcs8')],
+        ] as const)('signs and verifies with %s', async (algorithm, keyId, key) => {
+            const archive = await builder().sign({algorithm, key, keyId}).build();
+
+            const payload = await Bundle.verify(archive, {keys});
+            expect(payload.files.map((file) => file.name)).toEqual([
+                '.manifest', 'roles/data.json', 'roles/readers/data.json', 'authz/policy.rego',
+            ]);
+            expect((await Bundle.read(archive)).signatures?.signatures).toHaveLength(1);
+        });
+
+        it.each([
+            ['RS256', rsa],
+            ['ES256', ec],
+        ] as const)('signs and verifies with %s KeyObjects', async (algorithm, pair) => {
+            const archive = await builder().sign({algorithm, key: pair.privateKey, keyId: 'k'}).build();
+            await expect(Bundle.verify(archive, {keys: {k: {algorithm, key: pair.publicKey}}})).resolves.toBeDefined();
+        });
+
+        it('reports unusable verification keys as verification errors', async () => {
+            const archive = await builder().sign({algorithm: 'RS256', key: rsa.privateKey, keyId: 'k'}).build();
+            await expect(Bundle.verify(archive, {keys: {k: {algorithm: 'RS256', key: 'not a key'}}}))
+                .rejects.toBeInstanceOf(Bundle.VerificationError);
+        });
+
+        it('hashes data files on their canonical JSON form', async () => {
+            const signed = await Bundle.sign({manifest: {}, data: [{path: '', value: {b: 1, a: 'x\u2028'}}], modules: []}, {algorithm: 'HS256', key: 'secret'});
+            const payload = JSON.parse(Buffer.from(signed.signatures!.signatures[0].split('.')[1], 'base64url').toString());
+
+            expect(payload.files[1]).toEqual({
+                name: 'data.json',
+                hash: createHash('sha256').update('{"a":"x\\u2028","b":1}').digest('hex'),
+                algorithm: 'SHA-256',
+            });
+        });
+
+        it('uses the default key id and scope from the verification options', async () => {
+            const contents = await Bundle.sign(builder().toContents(), {algorithm: 'HS256', key: 'secret', scope: 'write'});
+
+            await expect(Bundle.verify(contents, {keys, keyId: 'hmac', scope: 'write'})).resolves.toBeDefined();
+            await expect(Bundle.verify(contents, {keys, keyId: 'hmac', scope: 'read'})).rejects.toThrow('scope mismatch');
+            await expect(Bundle.verify(contents, {keys, keyId: 'other'}))
+                .rejects.toThrow('verification key corresponding to ID other not found');
+        });
+
+        it('rejects a signature made with another key', async () => {
+            const contents = await Bundle.sign(builder().toContents(), {algorithm: 'HS256', key: 'wrong', keyId: 'hmac'});
+            await expect(Bundle.verify(contents, {keys})).rejects.toThrow('failed to verify JWT signature');
+        });
+
+        it('detects tampered, added and removed files', async () => {
+            const signed = await Bundle.sign(builder().toContents(), {algorithm: 'HS256', key: 'secret', keyId: 'hmac'});
+            const files = Bundle.toFiles(signed);
+
+            const tampered = files.map((file) => file.path === 'authz/policy.rego'
+                ? {...file, content: new TextEncoder().encode('package authz\n\nallow := true\n')}
+                : file);
+            await expect(Bundle.verify(tampered, {keys})).rejects.toThrow('authz/policy.rego: digest mismatch');
+
+            const added = [...files, {path: 'extra.rego', content: new Uint8Array()}];
+            await expect(Bundle.verify(added, {keys})).rejects.toThrow('file extra.rego not included in bundle signature');
+            await expect(Bundle.verify(added, {keys, exclude: ['extra.rego']})).resolves.toBeDefined();
+
+            const removed = files.filter((file) => file.path !== 'roles/data.json');
+            await expect(Bundle.verify(removed, {keys}))
+                .rejects.toThrow('file(s) roles/data.json specified in the bundle signature but not found in the target bundle');
+        });
+
+        it('rejects unsigned bundles', async () => {
+            await expect(Bundle.verify(builder().toContents(), {keys}))
+                .rejects.toBeInstanceOf(Bundle.VerificationError);
+        });
+    });
+
+    describe('Server', () => {
+        const get = (server: Bundle.Server, path: string, headers: Record<string, string> = {}, signal?: AbortSignal) =>
+            server.fetch(new Request(`http://localhost${path}`, {headers, signal}));
+
+        it('serves published bundles with an ETag', async () => {
+            const server = new Bundle.Server();
+            const published = await server.publish('authz', builder().toContents());
+
+            const response = await get(server, '/bundles/authz.tar.gz');
+            expect(response.status).toBe(200);
+            expect(response.headers.get('ETag')).toBe(published.etag);
+            expect(response.headers.get('Content-Type')).toBe('application/vnd.openpolicyagent.bundles');
+            expect((await Bundle.read(new Uint8Array(await response.arrayBuffer()))).manifest.revision).toBe('v1');
+            expect(published.revision).toBe('v1');
+        });
+
+        it('answers 404 for unknown bundles and 405 for other methods', async () => {
+            const server = new Bundle.Server();
+            expect((await get(server, '/bundles/missing')).status).toBe(404);
+            expect((await server.fetch(new Request('http://localhost/bundles/x', {method: 'POST'}))).status).toBe(405);
+        });
+
+        it('answers 400 for malformed paths', async () => {
+            const server = new Bundle.Server();
+            expect((await get(server, '/bundles/%E0%A4%A')).status).toBe(400);
+
+            const http = await import('node:http');
+            const listener = http.createServer(server.node);
+            await new Promise<void>((resolve) => listener.listen(0, '127.0.0.1', resolve));
+            try {
+                const {port} = listener.address() as { port: number };
+                expect((await fetch(`http://127.0.0.1:${port}/bundles/%E0%A4%A`)).status).toBe(400);
+            } finally {
+                await new Promise((resolve) => listener.close(resolve));
+            }
+        });
+
+        it('answers 304 when the ETag matches', async () => {
+            const server = new Bundle.Server();
+            const {etag} = await server.publish('authz', await builder().build());
+
+            const response = await get(server, '/bundles/authz', {'If-None-Match': etag});
+            expect(response.status).toBe(304);
+        });
+
+        it('holds long polls until a new revision is published', async () => {
+            const server = new Bundle.Server();
+            const {etag} = await server.publish('authz', builder().toContents());
+
+            const pending = get(server, '/bundles/authz', {'If-None-Match': etag, Prefer: 'modes=long-poll;wait=30'});
+            const next = await server.publish('authz', builder().revision('v2').toContents());
+
+            const response = await pending;
+            expect(response.status).toBe(200);
+            expect(response.headers.get('ETag')).toBe(next.etag);
+        });
+
+        it('answers 304 when a long poll times out', async () => {
+            vi.useFakeTimers();
+            try {
+                const server = new Bundle.Server({maxWait: 1});
+                const {etag} = await server.publish('authz', builder().toContents());
+
+                const pending = get(server, '/bundles/authz', {'If-None-Match': etag, Prefer: 'wait=60'});
+                await vi.advanceTimersByTimeAsync(1000);
+                expect((await pending).status).toBe(304);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('waits for OPA to activate the published revision', async () => {
+            const server = new Bundle.Server();
+            await server.publish('authz', builder().toContents());
+            const status = vi.fn()
+                .mockResolvedValueOnce(new Response(JSON.stringify({result: {labels: {}, bundles: {authz: {active_revision: 'v0'}}}})))
+                .mockResolvedValueOnce(new Response(JSON.stringify({result: {labels: {}, bundles: {authz: {active_revision: 'v1'}}}})));
+            const client = new OPAClient({baseUrl: 'http://localhost:8181', fetch: status});
+
+            await server.waitForActivation(client, 'authz', {interval: 0});
+            expect(status).toHaveBeenCalledTimes(2);
+        });
+
+        it('fails when OPA reports an activation error after publishing', async () => {
+            const server = new Bundle.Server();
+            await server.publish('authz', builder().toContents());
+            const client = new OPAClient({
+                baseUrl: 'http://localhost:8181',
+                fetch: async () => new Response(JSON.stringify({
+                    result: {
+                        labels: {},
+                        bundles: {authz: {code: 'bundle_error', message: 'compile failed', last_request: new Date(Date.now() + 1000).toISOString()}},
+                    },
+                })),
+            });
+
+            await expect(server.waitForActivation(client, 'authz', {interval: 0}))
+                .rejects.toThrow('Bundle authz failed to activate: bundle_error: compile failed');
+        });
+    });
+});
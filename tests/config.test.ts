@@ -0,0 +1,105 @@
+import {describe, it, expect} from 'vitest';
+import {Config} from '../src';
+
+describe('Config', () => {
+    describe('validate', () => {
+        it('accepts a complete configuration', () => {
+            expect(Config.validate({
+                services: {
+                    acme: {url: 'https://bundles.acme.com', credentials: {bearer: {token_path: '/var/run/token'}}},
+                    logs: {url: 'https://logs.acme.com', credentials: {client_tls: {cert: '/cert.pem', private_key: '/key.pem'}}},
+                },
+                labels: {app: 'api'},
+                keys: {global: {algorithm: 'RS256', key: 'PEM'}},
+                bundles: {
+                    authz: {service: 'acme', resource: 'bundles/authz.tar.gz', signing: {keyid: 'global'}, polling: {min_delay_seconds: 10, max_delay_seconds: 20}},
+                    local: {resource: 'file:///etc/opa/bundle.tar.gz'},
+                },
+                decision_logs: {service: 'logs', reporting: {buffer_type: 'event', min_delay_seconds: 5, max_delay_seconds: 10}},
+                status: {service: 'logs', prometheus: true},
+                caching: {inter_query_builtin_cache: {max_size_bytes: 1_000_000}},
+                distributed_tracing: {type: 'grpc', address: 'localhost:4317', sample_percentage: 50},
+                server: {encoding: {gzip: {min_length: 1024, compression_level: 9}}},
+            })).toEqual([]);
+        });
+
+        it('reports unknown keys, wrong types and missing required keys', () => {
+            expect(Config.validate({
+                services: {acme: {url: 42, credentials: {oauth2: {client_id: 'id'}}}},
+                bundle: {},
+                decision_logs: {console: true, reporting: {buffer_type: 'lines'}},
+            })).toEqual([
+                {path: 'bundle', message: 'Unknown key'},
+                {path: 'decision_logs.reporting.buffer_type', message: 'Expected one of size, event'},
+                {path: 'services.acme.url', message: 'Expected a string'},
+                {path: 'services.acme.credentials.oauth2.token_url', message: 'Required'},
+            ]);
+        });
+
+        it('reports invalid references between sections', () => {
+            expect(Config.validate({
+                services: [{name: 'acme', url: 'https://acme.com'}],
+                bundles: {authz: {service: 'acmee', signing: {keyid: 'missing'}}},
+                discovery: {service: 'acme', polling: {min_delay_seconds: 60, max_delay_seconds: 10}},
+                decision_logs: {plugin: 'kafka'},
+            })).toEqual([
+                {path: 'bundles.authz.service', message: 'Unknown service "acmee"'},
+                {path: 'bundles.authz.signing.keyid', message: 'Unknown key "missing"'},
+                {path: 'discovery.polling', message: 'min_delay_seconds exceeds max_delay_seconds'},
+                {path: 'decision_logs.plugin', message: 'Unknown plugin "kafka"'},
+            ]);
+        });
+
+        it('reports sections that need a service when none is configured', () => {
+            expect(Config.validate({bundles: {authz: {resource: 'bundles/authz'}}, status: {console: true}})).toEqual([
+                {path: 'bundles.authz.service', message: 'No service is configured'},
+            ]);
+        });
+
+        it('reports conflicting credentials and malformed service lists', () => {
+            expect(Config.validate({
+                services: [
+                    {name: 'a', url: 'https://a', credentials: {bearer: {token: 't', token_path: '/t'}, gcp_metadata: {}}},
+                    {url: 'https://b'},
+                ],
+            })).toEqual([
+                {path: 'services[1].name', message: 'Required'},
+                {path: 'services[0].credentials', message: 'Only one credential type is allowed, got bearer, gcp_metadata'},
+                {path: 'services[0].credentials.bearer', message: 'token and token_path are mutually exclusive'},
+            ]);
+        });
+    });
+
+    describe('Builder', () => {
+        it('builds a validated configuration', () => {
+            const config = new Config.Builder()
+                .service('acme', {url: 'https://acme.com'})
+                .labels({app: 'api'})
+                .key('global', {key: 'PEM'})
+                .bundle('authz', {service: 'acme', signing: {keyid: 'global'}})
+                .decisionLogs({service: 'acme'})
+                .status({service: 'acme'})
+                .build();
+
+            expect(config).toEqual({
+                services: {acme: {url: 'https://acme.com'}},
+                labels: {app: 'api'},
+                keys: {global: {key: 'PEM'}},
+                bundles: {authz: {service: 'acme', signing: {keyid: 'global'}}},
+                decision_logs: {service: 'acme'},
+                status: {service: 'acme'},
+            });
+        });
+
+        it('throws a ValidationError listing the issues', () => {
+            const builder = new Config.Builder().bundle('authz', {service: 'acme'});
+            expect(() => builder.build()).toThrow(Config.ValidationError);
+            try {
+                builder.build();
+            } catch (error) {
+                expect((error as Config.ValidationError).issues).toEqual([{path: 'bundles.authz.service', message: 'Unknown service "acme"'}]);
+            }
+            expect(builder.toConfiguration()).toEqual({bundles: {authz: {service: 'acme'}}});
+        });
+    });
+});
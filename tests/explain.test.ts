@@ -0,0 +1,90 @@
+import {describe, it, expect, vi} from 'vitest';
+import {Explain, OPAClient, OpenPolicyAgent} from '../src';
+
+const v = (value: string): OpenPolicyAgent.AstTerm => ({type: 'var', value});
+const s = (value: string): OpenPolicyAgent.AstTerm => ({type: 'string', value});
+const n = (value: number): OpenPolicyAgent.AstTerm => ({type: 'number', value});
+const ref = (...terms: OpenPolicyAgent.AstTerm[]): OpenPolicyAgent.AstTerm => ({type: 'ref', value: terms});
+const op = (name: string) => ref(v(name));
+const e = (terms: OpenPolicyAgent.AstExpr['terms'], extra: Partial<OpenPolicyAgent.AstExpr> = {}): OpenPolicyAgent.AstExpr => ({index: 0, terms, ...extra});
+
+const source = [
+    'package authz',
+    '',
+    'default allow := false',
+    '',
+    'allow if {',
+    '\tinput.user == "admin"',
+    '}',
+].join('\n');
+
+const query = e([op('eq'), ref(v('data'), s('authz'), s('allow')), v('_')]);
+const check = e([op('equal'), ref(v('input'), s('user')), s('admin')]);
+const rule: OpenPolicyAgent.AstRule = {head: {name: 'allow', ref: [v('allow')], value: {type: 'boolean', value: true}}, body: [check]};
+const at = (file: string, row: number, col = 1) => ({file, row, col});
+
+const trace: OpenPolicyAgent.TraceEvent[] = [
+    {op: 'Enter', query_id: 0, parent_id: 0, type: 'body', node: [query], location: at('', 1)},
+    {op: 'Eval', query_id: 0, parent_id: 0, type: 'expr', node: query, location: at('', 1)},
+    {op: 'Index', query_id: 0, parent_id: 0, type: 'expr', node: query, location: at('', 1), message: '(matched 1 rule, 1 default rule)'},
+    {op: 'Enter', query_id: 1, parent_id: 0, type: 'rule', node: rule, location: at('authz.rego', 5)},
+    {op: 'Eval', query_id: 1, parent_id: 0, type: 'expr', node: check, location: at('authz.rego', 6, 2), locals: [{key: v('x'), value: n(1)}]},
+    {op: 'Fail', query_id: 1, parent_id: 0, type: 'expr', node: check, location: at('authz.rego', 6, 2)},
+    {op: 'Note', query_id: 1, parent_id: 0, type: 'expr', node: check, location: at('authz.rego', 6, 2), message: 'user is not admin'},
+    {op: 'Exit', query_id: 0, parent_id: 0, type: 'body', node: [query], location: at('', 1)},
+];
+
+describe('Explain', () => {
+    it('formats terms and expressions as Rego', () => {
+        expect(Explain.term(ref(v('data'), s('users'), s('x-y'), v('i'), n(0)))).toBe('data.users["x-y"][i][0]');
+        expect(Explain.term({type: 'object', value: [[s('a'), {type: 'array', value: [n(1), {type: 'null', value: null}]}]]})).toBe('{"a": [1, null]}');
+        expect(Explain.term({type: 'set', value: []})).toBe('set()');
+        expect(Explain.term({type: 'setcomprehension', value: {term: v('x'), body: [e([op('gt'), v('x'), n(1)])]}})).toBe('{x | x > 1}');
+        expect(Explain.expr(e([op('assign'), v('x'), {type: 'call', value: [op('mul'), {type: 'call', value: [op('plus'), v('a'), n(1)]}, n(2)]}]))).toBe('x := (a + 1) * 2');
+        expect(Explain.expr(e([op('plus'), n(1), n(2), v('x')]))).toBe('x = 1 + 2');
+        expect(Explain.expr(e([ref(v('count')), v('xs')]))).toBe('count(xs)');
+        expect(Explain.expr(e(ref(v('input'), s('admin')), {negated: true, with: [{target: ref(v('input'), s('user')), value: s('bob')}]})))
+            .toBe('not input.admin with input.user as "bob"');
+        expect(Explain.expr(e({symbols: [{type: 'call', value: [op('internal.member_2'), v('x'), v('xs')]}]}))).toBe('some x in xs');
+    });
+
+    it('renders a trace like opa eval --explain', () => {
+        expect(Explain.render(trace).split('\n')).toEqual([
+            'query:1      Enter data.authz.allow = _',
+            'query:1      | Eval data.authz.allow = _',
+            'query:1      | Index data.authz.allow = _ (matched 1 rule, 1 default rule)',
+            'authz.rego:5 | Enter allow',
+            'authz.rego:6 | | Eval input.user == "admin"',
+            'authz.rego:6 | | Fail input.user == "admin"',
+            'authz.rego:6 | | Note "user is not admin"',
+            'query:1      | Exit data.authz.allow = _',
+        ]);
+    });
+
+    it('resolves rule paths and shows snippets and locals when asked', () => {
+        const lines = Explain.render(trace, {sources: {'authz.rego': source}, locals: true}).split('\n');
+        expect(lines.slice(3, 9)).toEqual([
+            'authz.rego:5 | Enter data.authz.allow',
+            'authz.rego:6 | | Eval input.user == "admin"',
+            '             | |   {x: 1}',
+            'authz.rego:6 | | Fail input.user == "admin"',
+            '             | |   6 | \tinput.user == "admin"',
+            '             | |     |  ^',
+        ]);
+    });
+
+    it('returns pretty traces as-is', () => {
+        expect(Explain.render(['query:1     Enter data.authz.allow = _', 'query:1     | Eval data.authz.allow = _']))
+            .toBe('query:1     Enter data.authz.allow = _\nquery:1     | Eval data.authz.allow = _');
+    });
+
+    it('fetches the sources a trace refers to', async () => {
+        const mockFetch = vi.fn(async (url: string) => url.includes('/v1/policies/authz.rego')
+            ? new Response(JSON.stringify({result: {id: 'authz.rego', raw: source, ast: {}}}), {status: 200, headers: {'Content-Type': 'application/json'}})
+            : new Response('{}', {status: 404}));
+
+        const client = new OPAClient({baseUrl: 'http://localhost:8181', fetch: mockFetch});
+        expect(await Explain.sources(client, trace)).toEqual({'authz.rego': source});
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,135 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest';
+import {Middleware, OPAClient} from '../src';
+
+const token = (claims: object) =>
+    ['{"alg":"none"}', JSON.stringify(claims)].map((part) => Buffer.from(part).toString('base64url')).join('.') + '.';
+
+describe('Middleware', () => {
+    const transport = vi.fn();
+    let sent: string;
+    const client = new OPAClient({
+        baseUrl: 'http://localhost:8181',
+        fetch: transport,
+        interceptors: [(request, next) => {
+            sent = request.init.body as string;
+            return next(request);
+        }],
+    });
+
+    const decide = (result: unknown) => transport.mockResolvedValue(new Response(JSON.stringify({result}), {status: 200}));
+    const sentInput = () => JSON.parse(sent).input;
+
+    beforeEach(() => {
+        transport.mockReset();
+    });
+
+    const fakeResponse = () => ({
+        statusCode: 200,
+        headers: {} as Record<string, string>,
+        body: undefined as string | undefined,
+        setHeader(name: string, value: string) {
+            this.headers[name] = value;
+        },
+        end(body?: string) {
+            this.body = body;
+        },
+    });
+
+    describe('createInput', () => {
+        it('builds the standard input document', () => {
+            const input = Middleware.createInput('get', '/users/alice%20b/docs?tag=a&tag=b&q=1', {
+                'X-Request-Id': '42',
+                Authorization: `Bearer ${token({sub: 'alice', roles: ['admin']})}`,
+            });
+
+            expect(input).toMatchObject({
+                method: 'GET',
+                path: ['users', 'alice b', 'docs'],
+                query: {tag: ['a', 'b'], q: '1'},
+                headers: {'x-request-id': '42'},
+                token: {header: {alg: 'none'}, claims: {sub: 'alice', roles: ['admin']}},
+            });
+        });
+
+        it('keeps the raw token when claims cannot be decoded', () => {
+            const input = Middleware.createInput('GET', '/', {authorization: 'Bearer opaque'});
+            expect(input.token).toEqual({raw: 'opaque', header: undefined, claims: undefined});
+        });
+    });
+
+    describe('node', () => {
+        it('leaves the response untouched on allow', async () => {
+            decide(true);
+            const res = fakeResponse();
+
+            const decision = await Middleware.node({client, path: 'http/allow'})(
+                {method: 'DELETE', url: '/items/1', headers: {}} as any, res as any
+            );
+
+            expect(decision.allowed).toBe(true);
+            expect(res.body).toBeUndefined();
+            expect(sentInput()).toMatchObject({method: 'DELETE', path: ['items', '1']});
+        });
+
+        it('responds 403 with the configured body on deny', async () => {
+            decide(false);
+            const res = fakeResponse();
+
+            await Middleware.node({client, path: 'http/allow', deny: {body: (d) => ({reason: d.reason})}})(
+                {method: 'GET', url: '/', headers: {}} as any, res as any
+            );
+
+            expect(res.statusCode).toBe(403);
+            expect(res.headers['Content-Type']).toBe('application/json');
+            expect(res.body).toBe('{"reason":"denied"}');
+        });
+    });
+
+    describe('express', () => {
+        it('calls next on allow and lets callers extend the input', async () => {
+            decide(true);
+            const next = vi.fn();
+
+            Middleware.express({client, path: 'http/allow', input: (input, req: any) => ({...input, user: req.user})})(
+                {method: 'GET', url: '/', originalUrl: '/api/items', headers: {}, user: 'alice'} as any, fakeResponse() as any, next
+            );
+
+            await vi.waitFor(() => expect(next).toHaveBeenCalledWith());
+            expect(sentInput()).toMatchObject({path: ['api', 'items'], user: 'alice'});
+        });
+
+        it('forwards errors to next', async () => {
+            const next = vi.fn();
+            const error = new Error('boom');
+
+            Middleware.express({client, path: 'http/allow', input: () => Promise.reject(error)})(
+                {method: 'GET', url: '/', headers: {}} as any, fakeResponse() as any, next
+            );
+
+            await vi.waitFor(() => expect(next).toHaveBeenCalledWith(error));
+        });
+    });
+
+    describe('fetch', () => {
+        it('runs the handler on allow', async () => {
+            decide(true);
+            const handler = Middleware.fetch({client, path: 'http/allow'})(() => new Response('ok'));
+
+            const response = await handler(new Request('http://example.com/a?b=c', {method: 'POST'}));
+            expect(await response.text()).toBe('ok');
+            expect(sentInput()).toMatchObject({method: 'POST', path: ['a'], query: {b: 'c'}});
+        });
+
+        it('responds with the configured status and body on deny', async () => {
+            transport.mockRejectedValue(new TypeError('fetch failed'));
+            const handler = Middleware.fetch({client, path: 'http/allow', deny: {status: 401, body: 'nope'}})(
+                () => new Response('ok')
+            );
+
+            const response = await handler(new Request('http://example.com/'));
+            expect(response.status).toBe(401);
+            expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+            expect(await response.text()).toBe('nope');
+        });
+    });
+});
@@ -1,5 +1,5 @@
 import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest';
-import {OPAClient, OpenPolicyAgent} from '../src';
+import {OPAClient, OpenPolicyAgent, Path} from '../src';
 
 // Mock global fetch
 const mockFetch = vi.fn();
@@ -216,6 +216,66 @@ describe('OPAClient', () => {
                 expect.objectContaining({method: 'DELETE'})
             );
         });
+
+        it('update sends only the computed patch', async () => {
+            mockFetch
+                .mockResolvedValueOnce(mockJsonResponse({result: {alice: ['admin'], bob: ['viewer']}}))
+                .mockResolvedValueOnce(mockEmptyResponse());
+
+            const operations = await client.data.update<Record<string, string[]>>('acl', (acl) => {
+                delete acl.bob;
+                acl.carol = ['viewer'];
+            });
+
+            expect(operations).toEqual([
+                {op: 'remove', path: '/bob'},
+                {op: 'add', path: '/carol', value: ['viewer']},
+            ]);
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                'http://localhost:8181/v1/data/acl',
+                expect.objectContaining({method: 'PATCH'})
+            );
+        });
+
+        it('update sends nothing when nothing changed', async () => {
+            mockFetch.mockResolvedValueOnce(mockJsonResponse({result: {alice: ['admin']}}));
+
+            expect(await client.data.update('acl', (acl) => acl)).toEqual([]);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('update creates missing documents with put', async () => {
+            mockFetch
+                .mockResolvedValueOnce(mockJsonResponse({}))
+                .mockResolvedValueOnce(mockEmptyResponse());
+
+            await client.data.update<string[] | undefined>('acl/alice', (roles) => [...roles ?? [], 'admin']);
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                'http://localhost:8181/v1/data/acl/alice?',
+                expect.objectContaining({method: 'PUT'})
+            );
+        });
+
+        it('encodes paths', async () => {
+            mockFetch.mockImplementation(() => mockJsonResponse({}));
+
+            await client.data.get(['tenants', 'a/b c', '#1']);
+            await client.data.put(Path.parseRef('data.tenants["a/b c"]'), {});
+            await client.compile.filter(['filters', 'x y'], {}, 'application/json');
+            await client.data.get('data.v1/x');
+            expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+                'http://localhost:8181/v1/data/tenants/a%2Fb%20c/%231?',
+                'http://localhost:8181/v1/data/tenants/a%2Fb%20c?',
+                'http://localhost:8181/v1/compile/filters/x%20y',
+                'http://localhost:8181/v1/data/data.v1/x?',
+            ]);
+        });
+
+        it('rejects invalid paths without a request', async () => {
+            await expect(client.data.delete('servers/../policies')).rejects.toThrow(Path.InvalidPathError);
+            await expect(client.authorize('authz//allow', {})).rejects.toThrow('empty segment');
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
     });
 
     // =============================================================================
@@ -380,4 +440,918 @@ describe('OPAClient', () => {
 
         global.CompressionStream = originalCS;
     });
+
+    // =============================================================================
+    // Retry
+    // =============================================================================
+
+    describe('retry', () => {
+        const mockStatusResponse = (status: number, headers: Record<string, string> = {}) => {
+            return Promise.resolve({
+                ok: false,
+                status,
+                statusText: 'Error',
+                headers: new Headers(headers),
+                text: () => Promise.resolve(''),
+            });
+        };
+
+        it('does not retry without a retry policy', async () => {
+            mockFetch.mockResolvedValueOnce(mockStatusResponse(503));
+
+            await expect(client.policy.list()).rejects.toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('retries retryable status codes until success', async () => {
+            const retrying = new OPAClient({baseUrl: 'http://localhost:8181', retry: {initialDelay: 0}});
+            mockFetch
+                .mockResolvedValueOnce(mockStatusResponse(503))
+                .mockResolvedValueOnce(mockStatusResponse(429))
+                .mockResolvedValueOnce(mockJsonResponse({result: true}));
+
+            const res = await retrying.data.post('allow', {input: {}});
+            expect(res).toEqual({result: true});
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('gives up after maxAttempts', async () => {
+            const retrying = new OPAClient({baseUrl: 'http://localhost:8181', retry: {maxAttempts: 2, initialDelay: 0}});
+            mockFetch.mockResolvedValue(mockStatusResponse(502));
+
+            await expect(retrying.data.get('allow')).rejects.toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('does not retry non-retryable status codes', async () => {
+            const retrying = new OPAClient({baseUrl: 'http://localhost:8181', retry: {initialDelay: 0}});
+            mockFetch.mockResolvedValue(mockStatusResponse(400));
+
+            await expect(retrying.policy.list()).rejects.toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('retries network errors', async () => {
+            const retrying = new OPAClient({baseUrl: 'http://localhost:8181', retry: {initialDelay: 0}});
+            mockFetch
+                .mockRejectedValueOnce(new TypeError('fetch failed'))
+                .mockResolvedValueOnce(mockJsonResponse({result: []}));
+
+            await retrying.policy.list();
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('only retries data.patch when opted in', async () => {
+            const retrying = new OPAClient({baseUrl: 'http://localhost:8181', retry: {initialDelay: 0}});
+            mockFetch.mockResolvedValue(mockStatusResponse(503));
+
+            await expect(retrying.data.patch('servers', [])).rejects.toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+
+            mockFetch.mockClear();
+            await expect(retrying.data.patch('servers', [], {retry: {retryNonIdempotent: true}}))
+                .rejects.toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('allows disabling retries per call', async () => {
+            const retrying = new OPAClient({baseUrl: 'http://localhost:8181', retry: {initialDelay: 0}});
+            mockFetch.mockResolvedValue(mockStatusResponse(503));
+
+            await expect(retrying.policy.list({retry: false})).rejects.toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('honors Retry-After', async () => {
+            vi.useFakeTimers();
+            try {
+                mockFetch
+                    .mockResolvedValueOnce(mockStatusResponse(429, {'Retry-After': '2'}))
+                    .mockResolvedValueOnce(mockJsonResponse({result: []}));
+
+                const pending = client.policy.list({retry: {initialDelay: 0}});
+                await vi.advanceTimersByTimeAsync(1999);
+                expect(mockFetch).toHaveBeenCalledTimes(1);
+                await vi.advanceTimersByTimeAsync(1);
+                await pending;
+                expect(mockFetch).toHaveBeenCalledTimes(2);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+
+    // =============================================================================
+    // Timeouts & Cancellation
+    // =============================================================================
+
+    describe('timeouts', () => {
+        const hangingFetch = (_url: string, init: RequestInit) => new Promise((_, reject) => {
+            init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        });
+
+        it('throws TimeoutError when the client-wide timeout elapses', async () => {
+            const timed = new OPAClient({baseUrl: 'http://localhost:8181', timeout: 10});
+            mockFetch.mockImplementation(hangingFetch);
+
+            const error = await timed.data.get('allow').catch((e) => e);
+            expect(error).toBeInstanceOf(OpenPolicyAgent.TimeoutError);
+            expect(error).not.toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(error.timeout).toBe(10);
+        });
+
+        it('per-call timeout overrides the client default', async () => {
+            const timed = new OPAClient({baseUrl: 'http://localhost:8181', timeout: 60_000});
+            mockFetch.mockImplementation(hangingFetch);
+
+            await expect(timed.policy.list({timeout: 10})).rejects.toBeInstanceOf(OpenPolicyAgent.TimeoutError);
+        });
+
+        it('passes a signal to fetch and rejects with the caller abort reason', async () => {
+            mockFetch.mockImplementation(hangingFetch);
+            const controller = new AbortController();
+            const reason = new Error('cancelled');
+
+            const pending = client.data.post('allow', {input: {}}, {}, {signal: controller.signal});
+            controller.abort(reason);
+
+            await expect(pending).rejects.toBe(reason);
+            expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+        });
+
+        it('rejects immediately when the signal is already aborted', async () => {
+            mockFetch.mockImplementation(hangingFetch);
+
+            await expect(client.health.check(false, false, undefined, {signal: AbortSignal.abort()}))
+                .rejects.toHaveProperty('name', 'AbortError');
+        });
+
+        it('stops retrying once the timeout elapses', async () => {
+            mockFetch.mockResolvedValue({
+                ok: false,
+                status: 503,
+                statusText: 'Service Unavailable',
+                headers: new Headers(),
+                text: () => Promise.resolve(''),
+            });
+
+            await expect(client.policy.list({retry: {maxAttempts: 100, initialDelay: 20, jitter: 'none'}, timeout: 30}))
+                .rejects.toBeInstanceOf(OpenPolicyAgent.TimeoutError);
+            expect(mockFetch.mock.calls.length).toBeLessThan(100);
+        });
+    });
+
+    // =============================================================================
+    // Transport & Interceptors
+    // =============================================================================
+
+    describe('interceptors', () => {
+        it('uses the configured fetch instead of the global one', async () => {
+            const transport = vi.fn().mockResolvedValue(new Response('{"result":[]}', {status: 200}));
+            const custom = new OPAClient({baseUrl: 'http://localhost:8181', fetch: transport});
+
+            const res = await custom.policy.list();
+            expect(res).toEqual({result: []});
+            expect(transport).toHaveBeenCalledWith('http://localhost:8181/v1/policies', expect.any(Object));
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('runs interceptors in order and lets them rewrite the request', async () => {
+            const order: string[] = [];
+            const custom = new OPAClient({
+                baseUrl: 'http://localhost:8181',
+                interceptors: [
+                    async (request, next) => {
+                        order.push('first:request');
+                        request.init.headers.set('Authorization', 'Bearer injected');
+                        const response = await next(request);
+                        order.push('first:response');
+                        return response;
+                    },
+                    async (request, next) => {
+                        order.push('second:request');
+                        const response = await next({...request, url: request.url.replace('8181', '9191')});
+                        order.push('second:response');
+                        return response;
+                    },
+                ],
+            });
+            mockFetch.mockResolvedValue(mockEmptyResponse());
+
+            await custom.policy.list();
+            expect(order).toEqual(['first:request', 'second:request', 'second:response', 'first:response']);
+            expect(mockFetch).toHaveBeenCalledWith(
+                'http://localhost:9191/v1/policies',
+                expect.toSatisfy((init) => init.headers.get('Authorization') === 'Bearer injected'),
+            );
+        });
+
+        it('sees uncompressed JSON bodies', async () => {
+            let seen: unknown;
+            client.use(async (request, next) => {
+                seen = request.init.body;
+                return next(request);
+            });
+            mockFetch.mockResolvedValue(mockEmptyResponse());
+
+            await client.data.post('allow', {input: {user: 'bob'}});
+            expect(seen).toBe('{"input":{"user":"bob"}}');
+        });
+
+        it('can rewrite the response', async () => {
+            client.use(async (request, next) => {
+                await next(request);
+                return new Response('{"result":false}', {status: 200});
+            });
+            mockFetch.mockResolvedValue(mockJsonResponse({result: true}));
+
+            expect(await client.data.get('allow')).toEqual({result: false});
+        });
+
+        it('can short-circuit without calling the transport', async () => {
+            client.use(async () => new Response('{"result":true}', {status: 200}));
+
+            expect(await client.data.get('allow')).toEqual({result: true});
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('runs once per retry attempt', async () => {
+            const interceptor = vi.fn((request, next) => next(request));
+            const custom = new OPAClient({
+                baseUrl: 'http://localhost:8181',
+                retry: {initialDelay: 0},
+                interceptors: [interceptor],
+            });
+            mockFetch
+                .mockResolvedValueOnce(new Response('', {status: 503}))
+                .mockResolvedValueOnce(mockEmptyResponse());
+
+            await custom.policy.list();
+            expect(interceptor).toHaveBeenCalledTimes(2);
+        });
+
+        it('does not retry errors thrown by interceptors', async () => {
+            const interceptor = vi.fn(async () => {
+                throw new Error('rejected by interceptor');
+            });
+            const custom = new OPAClient({baseUrl: 'http://localhost:8181', retry: {initialDelay: 0}, interceptors: [interceptor]});
+
+            await expect(custom.policy.list()).rejects.toThrow('rejected by interceptor');
+            expect(interceptor).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // =============================================================================
+    // Decision Cache
+    // =============================================================================
+
+    describe('cache', () => {
+        let cached: OpenPolicyAgent.Client;
+
+        beforeEach(() => {
+            cached = new OPAClient({baseUrl: 'http://localhost:8181', cache: {ttl: 60_000, maxEntries: 2}});
+            mockFetch.mockImplementation(() => mockJsonResponse({result: true}));
+        });
+
+        it('is disabled by default', async () => {
+            await client.data.post('authz/allow', {input: {user: 'alice'}});
+            await client.data.post('authz/allow', {input: {user: 'alice'}});
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(client.cache.stats()).toEqual({hits: 0, misses: 0, evictions: 0, size: 0});
+        });
+
+        it('serves repeated decisions from the cache regardless of key order', async () => {
+            await cached.data.post('authz/allow', {input: {user: 'alice', action: 'read'}});
+            const res = await cached.data.post('authz/allow', {input: {action: 'read', user: 'alice'}});
+
+            expect(res).toEqual({result: true});
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(cached.cache.stats()).toEqual({hits: 1, misses: 1, evictions: 0, size: 1});
+        });
+
+        it('returns a copy of the cached decision on every hit', async () => {
+            mockFetch.mockImplementation(() => mockJsonResponse({result: {roles: ['a']}}));
+            const first = await cached.data.get('authz/roles');
+            first.result.roles.push('admin');
+            const second = await cached.data.get('authz/roles');
+            second.result.roles.push('owner');
+
+            expect(await cached.data.get('authz/roles')).toEqual({result: {roles: ['a']}});
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('keys on input and options', async () => {
+            await cached.data.post('authz/allow', {input: {user: 'alice'}});
+            await cached.data.post('authz/allow', {input: {user: 'bob'}});
+            await cached.data.post('authz/allow', {input: {user: 'bob'}}, {provenance: true});
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('expires entries after the ttl', async () => {
+            vi.useFakeTimers();
+            try {
+                await cached.data.get('authz/allow');
+                vi.advanceTimersByTime(60_001);
+                await cached.data.get('authz/allow');
+                expect(mockFetch).toHaveBeenCalledTimes(2);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it('evicts the least recently used entry', async () => {
+            await cached.data.get('a');
+            await cached.data.get('b');
+            await cached.data.get('a');
+            await cached.data.get('c');
+            await cached.data.get('a');
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            expect(cached.cache.stats().evictions).toBe(1);
+        });
+
+        it('can be bypassed per call', async () => {
+            await cached.data.get('authz/allow');
+            await cached.data.get('authz/allow', {}, {cache: false});
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('invalidates overlapping paths on data writes', async () => {
+            await cached.data.get('authz/allow');
+            await cached.data.get('other');
+            await cached.data.put('authz', {});
+            await cached.data.get('authz/allow');
+            await cached.data.get('other');
+            expect(mockFetch).toHaveBeenCalledTimes(4);
+        });
+
+        it('clears everything on policy writes', async () => {
+            await cached.data.get('authz/allow');
+            await cached.policy.put('authz', 'package authz');
+            await cached.data.get('authz/allow');
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('invalidates by prefix on demand', async () => {
+            await cached.data.get('authz/allow');
+            await cached.data.get('other');
+            expect(cached.cache.invalidate('authz')).toBe(1);
+            expect(cached.cache.stats().size).toBe(1);
+        });
+
+        it('does not store a decision loaded across an invalidation', async () => {
+            let resolve!: (value: unknown) => void;
+            mockFetch.mockImplementationOnce(() => new Promise((r) => resolve = r));
+
+            const pending = cached.data.get('authz/allow');
+            cached.cache.invalidate('authz');
+            resolve(await mockJsonResponse({result: false}));
+            await pending;
+
+            expect(cached.cache.stats().size).toBe(0);
+        });
+    });
+
+    // =============================================================================
+    // Coalescing
+    // =============================================================================
+
+    describe('coalesce', () => {
+        let coalescing: OpenPolicyAgent.Client;
+        let resolve: (value: unknown) => void;
+
+        beforeEach(() => {
+            coalescing = new OPAClient({baseUrl: 'http://localhost:8181', coalesce: true});
+            mockFetch.mockImplementation(() => new Promise((r) => resolve = r));
+        });
+
+        it('shares one request between concurrent identical evaluations', async () => {
+            const first = coalescing.data.post('authz/allow', {input: {user: 'alice'}});
+            const second = coalescing.data.post('authz/allow', {input: {user: 'alice'}});
+            const third = coalescing.data.get('authz/allow', {input: {user: 'alice'}});
+            resolve(await mockJsonResponse({result: true}));
+
+            expect(await Promise.all([first, second, third])).toEqual([{result: true}, {result: true}, {result: true}]);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('does not share requests for different inputs', async () => {
+            coalescing.data.post('authz/allow', {input: {user: 'alice'}});
+            coalescing.data.post('authz/allow', {input: {user: 'bob'}});
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('sends a new request once the previous one settled', async () => {
+            const first = coalescing.data.get('authz/allow');
+            resolve(await mockJsonResponse({result: true}));
+            await first;
+
+            coalescing.data.get('authz/allow');
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('never coalesces writes', async () => {
+            coalescing.data.put('config', {});
+            coalescing.data.put('config', {});
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('lets a caller abort without breaking the shared request', async () => {
+            const controller = new AbortController();
+            const reason = new Error('gone');
+            const first = coalescing.data.post('authz/allow', {input: {}}, {}, {signal: controller.signal});
+            const second = coalescing.data.post('authz/allow', {input: {}});
+
+            controller.abort(reason);
+            await expect(first).rejects.toBe(reason);
+            expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(false);
+
+            resolve(await mockJsonResponse({result: true}));
+            expect(await second).toEqual({result: true});
+        });
+
+        it('sends no shared request for an already aborted caller', async () => {
+            const controller = new AbortController();
+            const reason = new Error('gone');
+            controller.abort(reason);
+
+            await expect(coalescing.data.get('authz/allow', {}, {signal: controller.signal})).rejects.toBe(reason);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('applies a caller timeout to its own wait only', async () => {
+            const first = coalescing.data.get('authz/allow', {}, {timeout: 5});
+            const second = coalescing.data.get('authz/allow');
+
+            await expect(first).rejects.toBeInstanceOf(OpenPolicyAgent.TimeoutError);
+            resolve(await mockJsonResponse({result: true}));
+            expect(await second).toEqual({result: true});
+        });
+    });
+
+    // =============================================================================
+    // Decisions
+    // =============================================================================
+
+    describe('authorize', () => {
+        it('returns the policy answer with decision metadata', async () => {
+            mockFetch.mockResolvedValue(mockJsonResponse({result: true, decision_id: 'd1'}));
+
+            const decision = await client.authorize('authz/allow', {user: 'alice'});
+            expect(decision).toEqual({allowed: true, reason: 'allowed', decision_id: 'd1', result: true});
+            expect(mockFetch).toHaveBeenCalledWith(
+                'http://localhost:8181/v1/data/authz/allow?',
+                expect.objectContaining({method: 'POST'})
+            );
+        });
+
+        it('encodes the decision path once', async () => {
+            mockFetch.mockResolvedValue(mockJsonResponse({result: true}));
+
+            await client.authorize(['team a', 'x/y', 'allow'], {});
+            expect(await client.allowed('team a/allow', {})).toBe(true);
+            expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+                'http://localhost:8181/v1/data/team%20a/x%2Fy/allow?',
+                'http://localhost:8181/v1/data/team%20a/allow?',
+            ]);
+        });
+
+        it('denies on false', async () => {
+            mockFetch.mockResolvedValue(mockJsonResponse({result: false}));
+            expect(await client.allowed('authz/allow', {})).toBe(false);
+        });
+
+        it('fails closed on undefined documents and type mismatches by default', async () => {
+            mockFetch.mockResolvedValueOnce(mockJsonResponse({decision_id: 'd2'}));
+            const undefinedDecision = await client.authorize('authz/allow', {});
+            expect(undefinedDecision).toMatchObject({allowed: false, reason: 'undefined', decision_id: 'd2'});
+
+            mockFetch.mockResolvedValueOnce(mockJsonResponse({result: 'yes'}));
+            const mismatch = await client.authorize('authz/allow', {});
+            expect(mismatch).toMatchObject({allowed: false, reason: 'type_mismatch', result: 'yes'});
+        });
+
+        it('fails closed on errors by default', async () => {
+            mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+            expect(await client.authorize('authz/allow', {})).toMatchObject({allowed: false, reason: 'network_error'});
+
+            mockFetch.mockResolvedValueOnce(new Response('{"code":"internal_error","message":"boom"}', {status: 500}));
+            const decision = await client.authorize('authz/allow', {});
+            expect(decision).toMatchObject({allowed: false, reason: 'client_error'});
+            expect(decision.error).toBeInstanceOf(OpenPolicyAgent.ClientError);
+        });
+
+        it('applies the client-wide and per-call failure policy', async () => {
+            const failOpen = new OPAClient({baseUrl: 'http://localhost:8181', failurePolicy: {network: 'open'}});
+            mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+            expect(await failOpen.authorize('authz/allow', {})).toMatchObject({allowed: true, reason: 'network_error'});
+            await expect(failOpen.authorize('authz/allow', {}, {failure: {network: 'throw'}})).rejects.toThrow('fetch failed');
+        });
+
+        it('rethrows when the caller aborts', async () => {
+            await expect(client.authorize('authz/allow', {}, {signal: AbortSignal.abort()}))
+                .rejects.toHaveProperty('name', 'AbortError');
+        });
+    });
+
+    // =============================================================================
+    // Tracing
+    // =============================================================================
+
+    describe('tracing', () => {
+        const tracer = (traceId = '4bf92f3577b34da6a3ce929d0e0e4736') => {
+            const spans: { name: string, options: any, attributes: Record<string, unknown>, status?: any, exceptions: unknown[], ended: boolean }[] = [];
+            const instance: OpenPolicyAgent.Tracer = {
+                startSpan: (name, options) => {
+                    const span = {name, options, attributes: {...options?.attributes}, status: undefined as any, exceptions: [] as unknown[], ended: false};
+                    spans.push(span);
+                    return {
+                        setAttribute: (key, value) => span.attributes[key] = value,
+                        setStatus: (status) => span.status = status,
+                        recordException: (exception) => span.exceptions.push(exception),
+                        spanContext: () => ({traceId, spanId: '00f067aa0ba902b7', traceFlags: 1}),
+                        end: () => span.ended = true,
+                    };
+                },
+            };
+            return {instance, spans};
+        };
+
+        it('produces a client span with decision attributes and injects traceparent', async () => {
+            const {instance, spans} = tracer();
+            const traced = new OPAClient({baseUrl: 'http://localhost:8181', tracer: instance});
+            mockFetch.mockResolvedValueOnce(mockJsonResponse({result: true, decision_id: 'd1', metrics: {timer_rego_query_eval_ns: 1200}}));
+
+            await traced.data.post('authz/allow', {input: {}}, {metrics: true});
+
+            expect(spans).toHaveLength(1);
+            expect(spans[0]).toMatchObject({
+                name: 'OPA data',
+                options: {kind: 2},
+                attributes: {
+                    'http.request.method': 'POST',
+                    'url.full': 'http://localhost:8181/v1/data/authz/allow?metrics=true',
+                    'opa.endpoint': 'data',
+                    'opa.path': 'authz/allow',
+                    'opa.attempts': 1,
+                    'http.response.status_code': 200,
+                    'opa.decision_id': 'd1',
+                    'opa.metrics.timer_rego_query_eval_ns': 1200,
+                },
+                ended: true,
+            });
+            const headers = mockFetch.mock.calls[0][1].headers as Headers;
+            expect(headers.get('traceparent')).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+        });
+
+        it('leaves the input out of url.full', async () => {
+            const {instance, spans} = tracer();
+            const traced = new OPAClient({baseUrl: 'http://localhost:8181', tracer: instance});
+            mockFetch.mockResolvedValueOnce(mockJsonResponse({result: true}));
+
+            await traced.data.get('authz/allow', {input: {token: 'secret'}, metrics: true});
+            expect(spans[0].attributes['url.full']).toBe('http://localhost:8181/v1/data/authz/allow?metrics=true');
+        });
+
+        it('marks failed requests and records the exception', async () => {
+            const {instance, spans} = tracer();
+            const traced = new OPAClient({baseUrl: 'http://localhost:8181', tracer: instance});
+            mockFetch.mockResolvedValueOnce(new Response('{"code":"resource_not_found","message":"policy not found"}', {status: 404}));
+
+            await expect(traced.policy.get('missing')).rejects.toThrow(OpenPolicyAgent.ClientError);
+            expect(spans[0]).toMatchObject({
+                name: 'OPA policy',
+                attributes: {'opa.path': 'missing', 'http.response.status_code': 404, 'error.type': 'resource_not_found'},
+                status: {code: 2, message: 'policy not found'},
+                ended: true,
+            });
+            expect(spans[0].exceptions[0]).toBeInstanceOf(OpenPolicyAgent.ClientError);
+        });
+
+        it('does not inject traceparent for non-recording spans or override an existing one', async () => {
+            const {instance} = tracer('00000000000000000000000000000000');
+            mockFetch.mockResolvedValue(mockJsonResponse({result: true}));
+
+            await new OPAClient({baseUrl: 'http://localhost:8181', tracer: instance}).data.get('authz/allow');
+            expect((mockFetch.mock.calls[0][1].headers as Headers).has('traceparent')).toBe(false);
+
+            const upstream = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+            await new OPAClient({baseUrl: 'http://localhost:8181', tracer: tracer().instance, headers: {traceparent: upstream}}).data.get('authz/allow');
+            expect((mockFetch.mock.calls[1][1].headers as Headers).get('traceparent')).toBe(upstream);
+        });
+    });
+
+    // =============================================================================
+    // Logging
+    // =============================================================================
+
+    describe('logging', () => {
+        const logger = () => ({debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn()});
+
+        it('logs responses with timing, status, decision_id and redacted bodies', async () => {
+            const log = logger();
+            const logged = new OPAClient({
+                baseUrl: 'http://localhost:8181',
+                logging: {logger: log, redact: ['/input/token', '/input/user/email', '/result/email']},
+            });
+            mockFetch.mockResolvedValueOnce(mockJsonResponse({result: {allow: true, email: 'alice@example.com'}, decision_id: 'd1'}));
+
+            await logged.data.post('authz', {input: {token: 'secret', user: {email: 'alice@example.com', name: 'alice'}}} as any);
+
+            expect(log.debug).not.toHaveBeenCalled();
+            expect(log.info).toHaveBeenCalledWith('OPA response', {
+                method: 'POST',
+                url: 'http://localhost:8181/v1/data/authz?',
+                endpoint: 'data',
+                path: 'authz',
+                status: 200,
+                duration_ms: expect.any(Number),
+                attempts: 1,
+                decision_id: 'd1',
+                body: '{"result":{"allow":true,"email":"[REDACTED]"},"decision_id":"d1"}',
+            });
+        });
+
+        it('logs redacted requests at debug level, including the input query parameter', async () => {
+            const log = logger();
+            const logged = new OPAClient({baseUrl: 'http://localhost:8181', logging: {logger: log, level: 'debug', redact: ['/input/token']}});
+            mockFetch.mockResolvedValue(mockJsonResponse({result: true}));
+
+            await logged.data.get('authz/allow', {input: {token: 'secret', user: 'alice'}});
+            await logged.data.post('authz/allow', {input: {token: 'secret'}} as any);
+
+            const [[, get], [, post]] = log.debug.mock.calls;
+            expect(decodeURIComponent(get.url)).toContain('input={"token":"[REDACTED]","user":"alice"}');
+            expect(get.url).not.toContain('secret');
+            expect(post.body).toBe('{"input":{"token":"[REDACTED]"}}');
+        });
+
+        it('redacts the raw input sent by webhook and default queries', async () => {
+            const log = logger();
+            const logged = new OPAClient({baseUrl: 'http://localhost:8181', logging: {logger: log, level: 'debug', redact: ['/input/token']}});
+            mockFetch.mockResolvedValue(mockJsonResponse({result: true}));
+
+            await logged.data.webhook('authz/allow', {token: 'secret', user: 'alice'});
+            await logged.query.default({token: 'secret'});
+
+            const [[, webhook], [, query]] = log.debug.mock.calls;
+            expect(webhook.body).toBe('{"token":"[REDACTED]","user":"alice"}');
+            expect(query.body).toBe('{"token":"[REDACTED]"}');
+        });
+
+        it('truncates long bodies', async () => {
+            const log = logger();
+            const logged = new OPAClient({baseUrl: 'http://localhost:8181', logging: {logger: log, maxBodyLength: 10}});
+            mockFetch.mockResolvedValueOnce(mockJsonResponse({result: 'x'.repeat(100)}));
+
+            await logged.data.get('big');
+            expect(log.info.mock.calls[0][1].body).toBe('{"result":… (103 more characters)');
+        });
+
+        it('logs retries and failures', async () => {
+            const log = logger();
+            const logged = new OPAClient({
+                baseUrl: 'http://localhost:8181',
+                retry: {maxAttempts: 2, initialDelay: 1, jitter: 'none'},
+                logging: {logger: log},
+            });
+            mockFetch
+                .mockResolvedValueOnce(new Response('', {status: 503}))
+                .mockResolvedValueOnce(new Response('{"code":"internal_error","message":"boom"}', {status: 500}));
+
+            await expect(logged.data.get('authz/allow')).rejects.toThrow(OpenPolicyAgent.ClientError);
+            expect(log.warn).toHaveBeenCalledWith('OPA request retry', expect.objectContaining({attempt: 1, status: 503, delay_ms: 1}));
+            expect(log.error).toHaveBeenCalledWith('OPA request failed', expect.objectContaining({
+                path: 'authz/allow', status: 500, code: 'internal_error', error: 'boom', attempts: 2,
+            }));
+        });
+
+        it('never fails a request because the logger throws', async () => {
+            const log = logger();
+            log.info.mockImplementation(() => {
+                throw new Error('logger down');
+            });
+            mockFetch.mockResolvedValueOnce(mockJsonResponse({result: true}));
+            const logged = new OPAClient({baseUrl: 'http://localhost:8181', logging: {logger: log}});
+            expect(await logged.data.get('authz/allow')).toEqual({result: true});
+        });
+    });
+
+    // =============================================================================
+    // Errors
+    // =============================================================================
+
+    describe('errors', () => {
+        const errorResponse = (status: number, body: unknown) => new Response(JSON.stringify(body), {status});
+
+        it.each([
+            ['invalid_parameter', 400, OpenPolicyAgent.InvalidParameterError],
+            ['invalid_operation', 400, OpenPolicyAgent.InvalidOperationError],
+            ['resource_not_found', 404, OpenPolicyAgent.ResourceNotFoundError],
+            ['resource_conflict', 409, OpenPolicyAgent.ResourceConflictError],
+            ['unauthorized', 401, OpenPolicyAgent.UnauthorizedError],
+            ['internal_error', 500, OpenPolicyAgent.InternalError],
+        ])('throws the subclass for %s', async (code, status, type) => {
+            mockFetch.mockResolvedValueOnce(errorResponse(status, {code, message: 'nope'}));
+
+            const error = await client.policy.get('authz').catch((error) => error);
+            expect(error).toBeInstanceOf(type);
+            expect(error).toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(error).toMatchObject({code, message: 'nope'});
+        });
+
+        it('falls back to ClientError for unknown codes', async () => {
+            mockFetch.mockResolvedValueOnce(new Response('', {status: 502, statusText: 'Bad Gateway'}));
+
+            const error = await client.policy.list().catch((error) => error);
+            expect(error.constructor).toBe(OpenPolicyAgent.ClientError);
+            expect(error).toMatchObject({code: 'unknown', message: 'OPA request failed: 502 Bad Gateway'});
+        });
+
+        it.each([
+            ['rego_parse_error', OpenPolicyAgent.RegoParseError],
+            ['rego_compile_error', OpenPolicyAgent.RegoCompileError],
+            ['rego_unsafe_var_error', OpenPolicyAgent.RegoCompileError],
+            ['rego_type_error', OpenPolicyAgent.RegoTypeError],
+        ])('throws a Rego error for %s', async (code, type) => {
+            mockFetch.mockResolvedValueOnce(errorResponse(400, {
+                code: 'invalid_parameter',
+                message: 'error(s) occurred while compiling module(s)',
+                errors: [{code, message: 'problem', location: {file: 'authz', row: 1, col: 1}}],
+            }));
+
+            const error = await client.policy.put('authz', 'package authz').catch((error) => error);
+            expect(error).toBeInstanceOf(type);
+            expect(error).toBeInstanceOf(OpenPolicyAgent.RegoError);
+            expect(error).toBeInstanceOf(OpenPolicyAgent.InvalidParameterError);
+            expect(error.code).toBe('invalid_parameter');
+        });
+
+        it('formats Rego errors with a code frame', async () => {
+            const source = 'package authz\n\nallow if {\n\tinput.user ==\n}\n';
+            mockFetch.mockResolvedValueOnce(errorResponse(400, {
+                code: 'invalid_parameter',
+                message: 'error(s) occurred while compiling module(s)',
+                errors: [{
+                    code: 'rego_parse_error',
+                    message: 'unexpected } token',
+                    location: {file: 'authz', row: 5, col: 1},
+                    details: {line: '}', idx: 0},
+                }, {
+                    code: 'rego_parse_error',
+                    message: 'incomplete expression',
+                    location: {file: 'authz', row: 4, col: 13},
+                }],
+            }));
+
+            const error: OpenPolicyAgent.ClientError = await client.policy.put('authz', source).catch((error) => error);
+            expect(error.format(source)).toBe([
+                'invalid_parameter: error(s) occurred while compiling module(s)',
+                '',
+                'authz:5:1: rego_parse_error: unexpected } token',
+                '  3 | allow if {',
+                '  4 | \tinput.user ==',
+                '> 5 | }',
+                '    | ^',
+                '  6 |',
+                '',
+                'authz:4:13: rego_parse_error: incomplete expression',
+                '  2 |',
+                '  3 | allow if {',
+                '> 4 | \tinput.user ==',
+                '    | \t           ^',
+                '  5 | }',
+                '  6 |',
+            ].join('\n'));
+            expect(error.format({authz: source}, 0)).toContain('> 5 | }\n    | ^');
+        });
+
+        it('formats the offending line reported by OPA without a source', () => {
+            const error = new OpenPolicyAgent.RegoParseError('invalid_parameter', 'failed', [{
+                code: 'rego_parse_error',
+                message: 'unexpected assign token',
+                location: {file: 'authz', row: 3, col: 7},
+                details: {line: 'allow := ', idx: 6},
+            }], new Response());
+
+            expect(error.format()).toBe([
+                'invalid_parameter: failed',
+                '',
+                'authz:3:7: rego_parse_error: unexpected assign token',
+                '  | allow := ',
+                '  |       ^',
+            ].join('\n'));
+        });
+
+        it('wraps transport failures in a NetworkError', async () => {
+            const cause = new TypeError('fetch failed');
+            mockFetch.mockRejectedValueOnce(cause);
+
+            const error = await client.policy.list().catch((error) => error);
+            expect(error).toBeInstanceOf(OpenPolicyAgent.NetworkError);
+            expect(error).not.toBeInstanceOf(OpenPolicyAgent.ClientError);
+            expect(error).toMatchObject({url: 'http://localhost:8181/v1/policies', cause});
+            expect(error.message).toContain('fetch failed');
+        });
+
+        it('does not wrap aborts in a NetworkError', async () => {
+            mockFetch.mockImplementationOnce((_url, init) => new Promise((_, reject) => {
+                init.signal.addEventListener('abort', () => reject(init.signal.reason));
+            }));
+
+            const error = await client.policy.list({timeout: 5}).catch((error) => error);
+            expect(error).toBeInstanceOf(OpenPolicyAgent.TimeoutError);
+        });
+    });
+
+    // =============================================================================
+    // Strict Mode
+    // =============================================================================
+
+    describe('strict mode', () => {
+        const term = (type: string, value: unknown) => ({type, value});
+        const modules = [{
+            id: 'authz',
+            raw: '',
+            ast: {
+                package: {path: [term('var', 'data'), term('string', 'authz')]},
+                rules: [
+                    {head: {name: 'allow', ref: [term('var', 'allow')]}, body: []},
+                    {head: {ref: [term('var', 'roles'), term('var', 'x')]}, body: []},
+                    {head: {name: 'f', ref: [term('var', 'f')], args: [term('var', 'x')]}, body: []},
+                ],
+            },
+        }, {
+            id: 'acme',
+            raw: '',
+            ast: {
+                package: {path: [term('var', 'data'), term('string', 'acme'), term('string', 'v1')]},
+                rules: [{head: {name: 'deny'}, body: []}],
+            },
+        }];
+        const serve = (decision: object) => mockFetch.mockImplementation((url: string) =>
+            url.includes('/v1/policies') ? mockJsonResponse({result: modules}) : mockJsonResponse(decision));
+
+        it('resolves undefined decisions without result by default', async () => {
+            serve({decision_id: 'd1'});
+            expect(await client.data.get('authz/allow')).toEqual({decision_id: 'd1'});
+        });
+
+        it('throws for undefined decisions of a defined rule', async () => {
+            const strict = new OPAClient({baseUrl: 'http://localhost:8181', strict: true});
+            serve({decision_id: 'd1'});
+
+            const error = await strict.data.post('authz/allow', {input: {}}).catch((error) => error);
+            expect(error).toBeInstanceOf(OpenPolicyAgent.UndefinedDocumentError);
+            expect(error).toMatchObject({path: 'authz/allow', decision_id: 'd1', defined: true, message: 'Decision authz/allow is undefined'});
+        });
+
+        it('tells a missing rule apart', async () => {
+            serve({});
+
+            const error = await client.data.get('authz/alow', {}, {strict: true}).catch((error) => error);
+            expect(error).toMatchObject({path: 'authz/alow', defined: false, message: 'No policy defines authz/alow'});
+        });
+
+        it('leaves defined unset when the policies cannot be listed', async () => {
+            mockFetch.mockImplementation((url: string) => url.includes('/v1/policies')
+                ? Promise.resolve(new Response('', {status: 403}))
+                : mockJsonResponse({}));
+
+            const error = await client.data.get('authz/allow', {}, {strict: true}).catch((error) => error);
+            expect(error).toBeInstanceOf(OpenPolicyAgent.UndefinedDocumentError);
+            expect(error.defined).toBeUndefined();
+        });
+
+        it('lets a call opt out of client-wide strict mode', async () => {
+            const strict = new OPAClient({baseUrl: 'http://localhost:8181', strict: true});
+            serve({result: false});
+            expect(await strict.data.get('authz/allow')).toEqual({result: false});
+
+            serve({});
+            expect(await strict.data.get('authz/allow', {}, {strict: false})).toEqual({});
+        });
+
+        it('reports strict undefined decisions through authorize', async () => {
+            const strict = new OPAClient({baseUrl: 'http://localhost:8181', strict: true});
+            serve({decision_id: 'd3'});
+
+            const decision = await strict.authorize('authz/allow', {});
+            expect(decision).toMatchObject({allowed: false, reason: 'undefined', decision_id: 'd3'});
+            expect(decision.error).toBeInstanceOf(OpenPolicyAgent.UndefinedDocumentError);
+        });
+
+        it('checks whether a policy defines a path', async () => {
+            serve({});
+
+            expect(await client.policy.defines('authz')).toBe(true);
+            expect(await client.policy.defines('authz/allow')).toBe(true);
+            expect(await client.policy.defines('authz/roles/admin')).toBe(true);
+            expect(await client.policy.defines('acme')).toBe(true);
+            expect(await client.policy.defines('/acme/v1/deny/')).toBe(true);
+            expect(await client.policy.defines('authz/alow')).toBe(false);
+            expect(await client.policy.defines('authz/f')).toBe(false);
+            expect(await client.policy.defines('acme/v2')).toBe(false);
+        });
+    });
 });
@@ -0,0 +1,93 @@
+import {describe, it, expect} from 'vitest';
+import {Patch} from '../src';
+
+describe('Patch', () => {
+    it('builds typed operations with escaped pointers', () => {
+        const operations = new Patch.Builder()
+            .add(['users', 'a/b'], {roles: []})
+            .remove('/users/alice')
+            .replace(['m~n'], 1)
+            .move('/x', '/y')
+            .copy(['y'], ['z'])
+            .test('/z', 2)
+            .build();
+
+        expect(operations).toEqual([
+            {op: 'add', path: '/users/a~1b', value: {roles: []}},
+            {op: 'remove', path: '/users/alice'},
+            {op: 'replace', path: '/m~0n', value: 1},
+            {op: 'move', from: '/x', path: '/y'},
+            {op: 'copy', from: '/y', path: '/z'},
+            {op: 'test', path: '/z', value: 2},
+        ]);
+        expect(Patch.tokens('/users/a~1b')).toEqual(['users', 'a/b']);
+    });
+
+    it('applies every operation to a copy', () => {
+        const document = {users: {alice: {roles: ['admin']}}, list: [1, 2]};
+        const result = Patch.apply(document, new Patch.Builder()
+            .add('/users/bob', {roles: []})
+            .add('/list/-', 3)
+            .add('/list/0', 0)
+            .replace('/users/alice/roles/0', 'viewer')
+            .copy('/users/alice', '/users/carol')
+            .move('/users/bob', '/users/dave')
+            .remove('/list/1')
+            .test('/list', [0, 2, 3])
+            .build());
+
+        expect(result).toEqual({
+            users: {alice: {roles: ['viewer']}, carol: {roles: ['viewer']}, dave: {roles: []}},
+            list: [0, 2, 3],
+        });
+        expect(document.users.alice.roles).toEqual(['admin']);
+    });
+
+    it('throws on missing paths and failed tests', () => {
+        expect(() => Patch.apply({}, [{op: 'remove', path: '/missing'}])).toThrow(Patch.PatchError);
+        expect(() => Patch.apply({a: [1]}, [{op: 'replace', path: '/a/1', value: 2}])).toThrow('index out of bounds');
+        expect(() => Patch.apply({a: 1}, [{op: 'test', path: '/a', value: 2}])).toThrow('test /a: test failed');
+    });
+
+    describe('diff', () => {
+        it('is empty for equal documents', () => {
+            expect(Patch.diff({a: [1, {b: 2}]}, {a: [1, {b: 2}]})).toEqual([]);
+            expect(Patch.diff({a: 1, b: undefined}, {a: 1})).toEqual([]);
+        });
+
+        it('compares objects member by member', () => {
+            expect(Patch.diff(
+                {users: {alice: {roles: ['admin']}, bob: {roles: []}}, version: 1},
+                {users: {alice: {roles: ['admin']}, carol: {roles: []}}, version: 2},
+            )).toEqual([
+                {op: 'remove', path: '/users/bob'},
+                {op: 'add', path: '/users/carol', value: {roles: []}},
+                {op: 'replace', path: '/version', value: 2},
+            ]);
+            expect(Patch.diff({constructor: 1}, {})).toEqual([{op: 'remove', path: '/constructor'}]);
+        });
+
+        it('keeps array items shared at both ends', () => {
+            const before = Array.from({length: 1000}, (_, i) => `user-${i}`);
+            const inserted = [...before.slice(0, 500), 'new', ...before.slice(500)];
+            expect(Patch.diff(before, inserted)).toEqual([{op: 'add', path: '/500', value: 'new'}]);
+            expect(Patch.diff(inserted, before)).toEqual([{op: 'remove', path: '/500'}]);
+            expect(Patch.diff([1, 2, 3, 4], [1, 9, 4])).toEqual([
+                {op: 'replace', path: '/1', value: 9},
+                {op: 'remove', path: '/2'},
+            ]);
+        });
+
+        it('replaces values that change type and the whole document', () => {
+            expect(Patch.diff({a: [1]}, {a: {0: 1}})).toEqual([{op: 'replace', path: '/a', value: {0: 1}}]);
+            expect(Patch.diff(undefined, {a: 1})).toEqual([{op: 'add', path: '', value: {a: 1}}]);
+            expect(Patch.diff(1, 2)).toEqual([{op: 'replace', path: '', value: 2}]);
+        });
+
+        it('produces patches that turn one document into the other', () => {
+            const before = {acl: [{user: 'a', roles: ['r1']}, {user: 'b', roles: []}], meta: {'a/b': 1, 'm~n': 2}};
+            const after = {acl: [{user: 'b', roles: ['r2']}, {user: 'c', roles: []}, {user: 'd'}], meta: {'a/b': 2}};
+            expect(Patch.apply(before, Patch.diff(before, after))).toEqual(after);
+        });
+    });
+});
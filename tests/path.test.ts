@@ -0,0 +1,52 @@
+import {describe, it, expect} from 'vitest';
+import {Path} from '../src';
+
+describe('Path', () => {
+    it('reads slash-separated paths and segment arrays', () => {
+        expect(Path.segments('authz/allow')).toEqual(['authz', 'allow']);
+        expect(Path.segments('/authz/allow/')).toEqual(['authz', 'allow']);
+        expect(Path.segments('')).toEqual([]);
+        expect(Path.segments(['tenants', 'a/b', 'x y'])).toEqual(['tenants', 'a/b', 'x y']);
+    });
+
+    it('reads Rego refs', () => {
+        expect(Path.parseRef('data.authz["team-a"].allow')).toEqual(['authz', 'team-a', 'allow']);
+        expect(Path.parseRef('data.servers[0][`raw "key"`]["a\\"b"]')).toEqual(['servers', '0', 'raw "key"', 'a"b']);
+        expect(Path.parseRef('data')).toEqual([]);
+        expect(() => Path.parseRef('input.user')).toThrow(Path.InvalidPathError);
+        expect(() => Path.parseRef('data.users[x]')).toThrow('unexpected "[x]"');
+    });
+
+    it('reads strings starting with data as slash-separated paths', () => {
+        expect(Path.segments('data.v1/x')).toEqual(['data.v1', 'x']);
+        expect(Path.encode('data[0]')).toBe('data%5B0%5D');
+    });
+
+    it('rejects empty and relative segments', () => {
+        expect(() => Path.segments('authz//allow')).toThrow('empty segment');
+        expect(() => Path.segments('authz/../admin')).toThrow('relative segment ..');
+        expect(() => Path.segments(['authz', '.'])).toThrow(Path.InvalidPathError);
+        expect(() => Path.parseRef('data.authz[".."]')).toThrow(Path.InvalidPathError);
+    });
+
+    it('percent-encodes each segment', () => {
+        expect(Path.encode(['tenants', 'a/b', 'x y', '#1'])).toBe('tenants/a%2Fb/x%20y/%231');
+        expect(Path.encode(Path.parseRef('data.users["bob@example.com"]'))).toBe('users/bob%40example.com');
+        expect(Path.decode('tenants/a%2Fb/x%20y')).toEqual(['tenants', 'a/b', 'x y']);
+    });
+
+    it('joins paths', () => {
+        expect(Path.join(Path.parseRef('data.tenants'), ['a/b'], 'authz/allow')).toEqual(['tenants', 'a/b', 'authz', 'allow']);
+    });
+
+    it('converts between paths, refs and packages', () => {
+        expect(Path.toRef(['authz', 'team-a', 'allow'])).toBe('data.authz["team-a"].allow');
+        expect(Path.toRef(['policy', 'default'])).toBe('data.policy["default"]');
+        expect(Path.fromPackage('authz.v1')).toEqual(['authz', 'v1']);
+        expect(Path.fromPackage('package data.authz["team-a"]')).toEqual(['authz', 'team-a']);
+        expect(Path.toPackage('authz/team-a')).toBe('authz["team-a"]');
+        expect(Path.toPackage(Path.fromPackage('acme.v1.http'))).toBe('acme.v1.http');
+        expect(() => Path.toPackage('')).toThrow('the root document is not a package');
+        expect(() => Path.toPackage(['team-a'])).toThrow('a package must start with an identifier');
+    });
+});
@@ -0,0 +1,78 @@
+import {describe, it, expect, vi} from 'vitest';
+import {OPAClient, Profiler} from '../src';
+
+describe('Profiler', () => {
+    it('summarizes metrics per path with percentiles', () => {
+        const profiler = new Profiler.Aggregator();
+        for (let i = 1; i <= 100; i++) profiler.record('authz/allow', {timer_rego_query_eval_ns: i * 1000, counter_server_query_cache_hit: 1});
+        profiler.record('authz/fast', {timer_rego_query_eval_ns: 10});
+
+        const report = profiler.report();
+        expect(report.paths.map((entry) => entry.path)).toEqual(['authz/allow', 'authz/fast']);
+        expect(report.paths[0].count).toBe(100);
+        expect(report.paths[0].metrics.timer_rego_query_eval_ns).toEqual({
+            count: 100, min: 1000, max: 100_000, mean: 50_500, p50: 50_000, p90: 90_000, p99: 99_000,
+        });
+        expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+    });
+
+    it('keeps a bounded sample while count, min, max and mean stay exact', () => {
+        const profiler = new Profiler.Aggregator({samples: 10});
+        for (let i = 1; i <= 1000; i++) profiler.record('p', {timer_rego_query_eval_ns: i});
+        const summary = profiler.report().paths[0].metrics.timer_rego_query_eval_ns;
+        expect(summary).toMatchObject({count: 1000, min: 1, max: 1000, mean: 500.5});
+        expect(summary.p50).toBeGreaterThanOrEqual(1);
+        expect(summary.p50).toBeLessThanOrEqual(1000);
+    });
+
+    it('breaks instrumented evaluation time down by operation and reports cache hit ratios', () => {
+        const profiler = new Profiler.Aggregator();
+        profiler.record('authz/allow', {
+            timer_rego_query_eval_ns: 1000,
+            timer_eval_op_rule_index_ns: 250,
+            timer_eval_op_virtual_cache_lookup_ns: 100,
+            counter_eval_op_virtual_cache_hit: 3,
+            counter_eval_op_virtual_cache_miss: 1,
+            histogram_eval_op_plug: {count: 1, min: 1, max: 1, mean: 1, median: 1, stddev: 0, '75%': 1, '90%': 1, '95%': 1, '99%': 1, '99.9%': 1, '99.99%': 1},
+        });
+
+        const [entry] = profiler.report().paths;
+        expect(entry.breakdown).toEqual({rule_index: 0.25, virtual_cache_lookup: 0.1});
+        expect(entry.cache).toEqual({virtual: 0.75});
+        expect(entry.metrics).not.toHaveProperty('histogram_eval_op_plug');
+    });
+
+    it('formats a report as tables', () => {
+        const profiler = new Profiler.Aggregator();
+        profiler.record('authz/allow', {timer_rego_query_eval_ns: 1_234_000, timer_eval_op_rule_index_ns: 617_000});
+        expect(Profiler.format(profiler.report()).split('\n')).toEqual([
+            'authz/allow (1 call)',
+            '+-----------------------------+-------+---------+---------+---------+---------+---------+---------+',
+            '|           METRIC            | COUNT |   MIN   |  MEAN   |   P50   |   P90   |   P99   |   MAX   |',
+            '+-----------------------------+-------+---------+---------+---------+---------+---------+---------+',
+            '| timer_eval_op_rule_index_ns |     1 |   617µs |   617µs |   617µs |   617µs |   617µs |   617µs |',
+            '| timer_rego_query_eval_ns    |     1 | 1.234ms | 1.234ms | 1.234ms | 1.234ms | 1.234ms | 1.234ms |',
+            '+-----------------------------+-------+---------+---------+---------+---------+---------+---------+',
+            '+------------+---------------+',
+            '| OPERATION  | SHARE OF EVAL |',
+            '+------------+---------------+',
+            '| rule_index |         50.0% |',
+            '+------------+---------------+',
+        ]);
+    });
+
+    it('records responses of calls made with metrics through its interceptor', async () => {
+        const transport = vi.fn(async () => new Response(JSON.stringify({result: true, metrics: {timer_rego_query_eval_ns: 5000}}), {
+            status: 200, headers: {'Content-Type': 'application/json'},
+        }));
+        const profiler = new Profiler.Aggregator();
+        const client = new OPAClient({baseUrl: 'http://localhost:8181', fetch: transport, interceptors: [profiler.interceptor]});
+
+        await client.data.get('authz/allow', {metrics: true});
+        await client.data.get('authz/allow');
+        await client.data.post('authz/allow', {input: {}}, {instrument: true});
+
+        const [entry] = profiler.report().paths;
+        expect(entry).toMatchObject({path: 'authz/allow', count: 2});
+    });
+});
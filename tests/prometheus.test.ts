@@ -0,0 +1,142 @@
+import {describe, it, expect, vi} from 'vitest';
+import {OPAClient, Prometheus} from '../src';
+
+const exposition = `# HELP bundle_failed_load_counter A counter that counts the number of bundle load failures
+# TYPE bundle_failed_load_counter counter
+bundle_failed_load_counter{code="bundle_error",message="server replied with Not Found",name="authz"} 2
+# HELP bundle_loading_duration_ns Histogram for the bundle loading duration by stage.
+# TYPE bundle_loading_duration_ns histogram
+bundle_loading_duration_ns_bucket{name="authz",stage="read",le="1000"} 0
+bundle_loading_duration_ns_bucket{name="authz",stage="read",le="+Inf"} 2
+bundle_loading_duration_ns_sum{name="authz",stage="read"} 5000
+bundle_loading_duration_ns_count{name="authz",stage="read"} 2
+# HELP go_gc_duration_seconds A summary of the pause duration of garbage collection cycles.
+# TYPE go_gc_duration_seconds summary
+go_gc_duration_seconds{quantile="0"} 1.5e-05
+go_gc_duration_seconds{quantile="0.5"} 4.2e-05
+go_gc_duration_seconds{quantile="1"} 0.0012
+go_gc_duration_seconds_sum 0.0031
+go_gc_duration_seconds_count 42
+# HELP go_goroutines Number of goroutines that currently exist.
+# TYPE go_goroutines gauge
+go_goroutines 31
+# HELP http_request_duration_seconds A histogram of duration for requests.
+# TYPE http_request_duration_seconds histogram
+http_request_duration_seconds_bucket{code="200",handler="v1/data",method="post",le="0.001"} 50
+http_request_duration_seconds_bucket{code="200",handler="v1/data",method="post",le="0.01"} 90
+http_request_duration_seconds_bucket{code="200",handler="v1/data",method="post",le="0.1"} 100
+http_request_duration_seconds_bucket{code="200",handler="v1/data",method="post",le="+Inf"} 100
+http_request_duration_seconds_sum{code="200",handler="v1/data",method="post"} 0.5
+http_request_duration_seconds_count{code="200",handler="v1/data",method="post"} 100
+http_request_duration_seconds_bucket{code="200",handler="health",method="get",le="0.001"} 10
+http_request_duration_seconds_bucket{code="200",handler="health",method="get",le="0.01"} 10
+http_request_duration_seconds_bucket{code="200",handler="health",method="get",le="0.1"} 10
+http_request_duration_seconds_bucket{code="200",handler="health",method="get",le="+Inf"} 10
+http_request_duration_seconds_sum{code="200",handler="health",method="get"} 0.002
+http_request_duration_seconds_count{code="200",handler="health",method="get"} 10
+# HELP last_success_bundle_activation Last successful bundle activation in nanoseconds.
+# TYPE last_success_bundle_activation gauge
+last_success_bundle_activation{name="authz"} 1.7672256e+18
+# HELP opa_info Information about the OPA environment.
+# TYPE opa_info gauge
+opa_info{version="1.4.2"} 1
+# HELP plugin_status_gauge Gauge for the plugin by status.
+# TYPE plugin_status_gauge gauge
+plugin_status_gauge{name="bundle",status="OK"} 1
+plugin_status_gauge{name="decision_logs",status="NOT_READY"} 1
+`;
+
+describe('Prometheus', () => {
+    it('parses counters, gauges, histograms and summaries', () => {
+        const families = Prometheus.parse(exposition);
+
+        expect(families.go_goroutines).toEqual({
+            name: 'go_goroutines', help: 'Number of goroutines that currently exist.', type: 'gauge',
+            samples: [{labels: {}, value: 31, timestamp: undefined}],
+        });
+        expect(families.bundle_failed_load_counter.samples).toEqual([
+            {labels: {code: 'bundle_error', message: 'server replied with Not Found', name: 'authz'}, value: 2, timestamp: undefined},
+        ]);
+        expect(families.bundle_loading_duration_ns.samples).toEqual([{
+            labels: {name: 'authz', stage: 'read'},
+            buckets: [{le: 1000, count: 0}, {le: Infinity, count: 2}],
+            sum: 5000,
+            count: 2,
+        }]);
+        expect(families.go_gc_duration_seconds.samples).toEqual([{
+            labels: {},
+            quantiles: [{quantile: 0, value: 1.5e-5}, {quantile: 0.5, value: 4.2e-5}, {quantile: 1, value: 0.0012}],
+            sum: 0.0031,
+            count: 42,
+        }]);
+        expect(families.http_request_duration_seconds.samples).toHaveLength(2);
+    });
+
+    it('handles escapes, timestamps, special values and untyped series', () => {
+        const families = Prometheus.parse([
+            '# HELP weird A help with a \\\\ and a\\nnewline',
+            '# TYPE weird gauge',
+            'weird{path="a\\"b\\\\c",x="1"} NaN 1700000000000',
+            'weird{path="inf"} +Inf',
+            'untyped_metric -1.5e3',
+            '# a plain comment',
+        ].join('\n'));
+
+        expect(families.weird.help).toBe('A help with a \\ and a\nnewline');
+        const [first, second] = families.weird.samples as Prometheus.Sample[];
+        expect(first.labels).toEqual({path: 'a"b\\c', x: '1'});
+        expect(first.value).toBeNaN();
+        expect(first.timestamp).toBe(1700000000000);
+        expect(second.value).toBe(Infinity);
+        expect(families.untyped_metric).toMatchObject({type: 'untyped', samples: [{value: -1500}]});
+    });
+
+    it('rejects malformed lines', () => {
+        expect(() => Prometheus.parse('metric{a="1" oops')).toThrow(Prometheus.ParseError);
+        expect(() => Prometheus.parse('metric abc')).toThrow('Line 1: Invalid value: abc');
+        expect(() => Prometheus.parse('# TYPE metric bogus')).toThrow('Unknown type');
+    });
+
+    it('sums values, merges histograms and estimates quantiles', () => {
+        const families = Prometheus.parse(exposition);
+        expect(Prometheus.value(families, 'plugin_status_gauge')).toBe(2);
+        expect(Prometheus.value(families, 'plugin_status_gauge', {name: 'bundle'})).toBe(1);
+        expect(Prometheus.value(families, 'missing')).toBeUndefined();
+
+        const merged = Prometheus.histogram(families, 'http_request_duration_seconds')!;
+        expect(merged.count).toBe(110);
+        expect(merged.buckets).toEqual([{le: 0.001, count: 60}, {le: 0.01, count: 100}, {le: 0.1, count: 110}, {le: Infinity, count: 110}]);
+
+        const data = Prometheus.histogram(families, 'http_request_duration_seconds', {handler: 'v1/data'})!;
+        expect(Prometheus.quantile(data, 0.5)).toBeCloseTo(0.001);
+        expect(Prometheus.quantile(data, 0.7)).toBeCloseTo(0.0055);
+    });
+
+    it('summarizes the OPA-specific series', () => {
+        const summary = Prometheus.summarize(Prometheus.parse(exposition));
+        expect(summary.version).toBe('1.4.2');
+        expect(summary.http.find((series) => series.handler === 'v1/data')).toMatchObject({method: 'post', code: '200', count: 100, mean: 0.005});
+        expect(summary.bundles.authz).toEqual({
+            lastRequest: undefined,
+            lastSuccessfulRequest: undefined,
+            lastSuccessfulDownload: undefined,
+            lastSuccessfulActivation: new Date('2026-01-01T00:00:00Z'),
+            failures: 2,
+            loading: {read: 2500},
+        });
+        expect(summary.plugins).toEqual({bundle: 'OK', decision_logs: 'NOT_READY'});
+        expect(summary.runtime.goroutines).toBe(31);
+    });
+
+    it('fetches /metrics through the client', async () => {
+        const mockFetch = vi.fn(async () => new Response(exposition, {status: 200, headers: {'Content-Type': 'text/plain; version=0.0.4'}}));
+
+        const client = new OPAClient({baseUrl: 'http://localhost:8181', fetch: mockFetch});
+        const families = await client.metrics.get();
+
+        expect(families.go_goroutines.type).toBe('gauge');
+        const [url, init] = mockFetch.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('http://localhost:8181/metrics');
+        expect(new Headers(init.headers).get('Accept')).toBe('text/plain; version=0.0.4');
+    });
+});
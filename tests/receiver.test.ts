@@ -0,0 +1,110 @@
+import {describe, it, expect, vi} from 'vitest';
+import {gzipSync} from 'node:zlib';
+import {Receiver} from '../src';
+
+const event = (overrides: object = {}) => ({
+    decision_id: 'd1',
+    labels: {id: 'opa-1', version: '1.0.0'},
+    timestamp: '2026-01-01T00:00:00Z',
+    path: 'authz/allow',
+    input: {user: 'alice'},
+    result: true,
+    erased: ['/input/password'],
+    bundles: {authz: {revision: 'v1'}},
+    metrics: {timer_rego_query_eval_ns: 1000},
+    ...overrides,
+});
+
+const upload = (body: unknown, gzip = true) => new Request('http://localhost/logs', {
+    method: 'POST',
+    headers: gzip ? {'Content-Encoding': 'gzip', 'Content-Type': 'application/json'} : {'Content-Type': 'application/json'},
+    body: gzip ? gzipSync(JSON.stringify(body)) : JSON.stringify(body),
+});
+
+describe('Receiver', () => {
+    describe('DecisionLogs', () => {
+        it('decompresses, validates and hands events to the handler', async () => {
+            const handler = vi.fn();
+            const receiver = new Receiver.DecisionLogs({handler});
+
+            const response = await receiver.fetch(upload([event(), event({decision_id: 'd2'})]));
+            expect(response.status).toBe(204);
+            expect(handler).toHaveBeenCalledWith([event(), event({decision_id: 'd2'})]);
+        });
+
+        it('accepts uncompressed uploads', async () => {
+            const handler = vi.fn();
+            const response = await new Receiver.DecisionLogs({handler}).fetch(upload([event()], false));
+            expect(response.status).toBe(204);
+        });
+
+        it('rejects malformed uploads with 400', async () => {
+            const receiver = new Receiver.DecisionLogs({handler: vi.fn()});
+
+            expect((await receiver.fetch(upload({not: 'an array'}))).status).toBe(400);
+            const invalid = await receiver.fetch(upload([event({decision_id: 42})]));
+            expect(invalid.status).toBe(400);
+            expect(await invalid.text()).toBe('Event 0: invalid decision_id');
+            const corrupt = await receiver.fetch(new Request('http://localhost/logs', {
+                method: 'POST', headers: {'Content-Encoding': 'gzip'}, body: 'not gzip',
+            }));
+            expect(corrupt.status).toBe(400);
+        });
+
+        it('rejects oversized uploads with 413', async () => {
+            const receiver = new Receiver.DecisionLogs({handler: vi.fn(), maxBodySize: 100});
+            expect((await receiver.fetch(upload([event()]))).status).toBe(413);
+        });
+
+        it('answers 500 when the handler fails, so OPA retries', async () => {
+            const receiver = new Receiver.DecisionLogs({handler: () => Promise.reject(new Error('db down'))});
+            const response = await receiver.fetch(upload([event()]));
+            expect(response.status).toBe(500);
+        });
+
+        it('answers 503 with Retry-After when at capacity', async () => {
+            let release!: () => void;
+            const receiver = new Receiver.DecisionLogs({
+                handler: () => new Promise<void>((resolve) => release = resolve),
+                maxConcurrent: 1,
+            });
+
+            const first = receiver.fetch(upload([event()]));
+            await vi.waitFor(() => expect(release).toBeDefined());
+            const second = await receiver.fetch(upload([event()]));
+            expect(second.status).toBe(503);
+            expect(second.headers.get('Retry-After')).toBe('1');
+
+            release();
+            expect((await first).status).toBe(204);
+        });
+
+        it('answers 405 for other methods', async () => {
+            const receiver = new Receiver.DecisionLogs({handler: vi.fn()});
+            expect((await receiver.fetch(new Request('http://localhost/logs'))).status).toBe(405);
+        });
+    });
+
+    describe('Status', () => {
+        const report = {
+            labels: {id: 'opa-1', version: '1.0.0'},
+            bundles: {authz: {name: 'authz', active_revision: 'v1'}},
+            plugins: {bundle: {state: 'OK'}},
+        };
+
+        it('validates reports and hands them to the handler', async () => {
+            const handler = vi.fn();
+            const response = await new Receiver.Status({handler}).fetch(upload(report, false));
+            expect(response.status).toBe(204);
+            expect(handler).toHaveBeenCalledWith(report);
+        });
+
+        it('rejects reports with invalid fields', async () => {
+            const receiver = new Receiver.Status({handler: vi.fn()});
+            expect((await receiver.fetch(upload([report], false))).status).toBe(400);
+            const invalid = await receiver.fetch(upload({...report, plugins: {bundle: 'OK'}}, false));
+            expect(invalid.status).toBe(400);
+            expect(await invalid.text()).toBe('Invalid plugins');
+        });
+    });
+});
@@ -0,0 +1,35 @@
+import {describe, it, expect} from 'vitest';
+import {Redaction} from '../src';
+
+describe('Redaction', () => {
+    const document = {
+        input: {
+            token: 'secret',
+            user: {email: 'alice@example.com', name: 'Alice'},
+            users: [{email: 'a@example.com'}, {email: 'b@example.com'}],
+            'a/b': 1,
+            'm~n': 2,
+        },
+    };
+
+    it('masks values at JSON pointers without modifying the document', () => {
+        const redacted = Redaction.apply(document, ['/input/token', '/input/user/email', '/input/users/1/email']);
+        expect(redacted.input.token).toBe('[REDACTED]');
+        expect(redacted.input.user).toEqual({email: '[REDACTED]', name: 'Alice'});
+        expect(redacted.input.users).toEqual([{email: 'a@example.com'}, {email: '[REDACTED]'}]);
+        expect(document.input.token).toBe('secret');
+    });
+
+    it('supports wildcards, escaped tokens and custom replacements', () => {
+        const redacted = Redaction.apply(document, ['/input/users/*/email', '/input/a~1b', '/input/m~0n'], null);
+        expect(redacted.input.users).toEqual([{email: null}, {email: null}]);
+        expect(redacted.input['a/b']).toBeNull();
+        expect(redacted.input['m~n']).toBeNull();
+        expect(Redaction.apply(document, [''])).toBe('[REDACTED]');
+    });
+
+    it('ignores pointers to missing values and rejects invalid pointers', () => {
+        expect(Redaction.apply(document, ['/input/missing/deep', '/input/users/9', '/input/token/x'])).toEqual(document);
+        expect(() => Redaction.apply(document, ['input/token'])).toThrow('Invalid JSON pointer: input/token');
+    });
+});
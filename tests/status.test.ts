@@ -0,0 +1,121 @@
+import {describe, it, expect, vi} from 'vitest';
+import {OPAClient, Status, OpenPolicyAgent} from '../src';
+
+const report = (overrides: Partial<OpenPolicyAgent.StatusReport> = {}): OpenPolicyAgent.StatusReport => ({
+    labels: {id: 'opa-1', version: '1.0.0'},
+    bundles: {
+        authz: {
+            name: 'authz',
+            active_revision: 'v1',
+            last_request: '2026-01-01T00:00:00Z',
+            last_successful_request: '2026-01-01T00:00:00Z',
+            last_successful_download: '2026-01-01T00:00:00Z',
+            last_successful_activation: '2026-01-01T00:00:00Z',
+        },
+    },
+    plugins: {bundle: {state: 'OK'}, decision_logs: {state: 'OK'}},
+    ...overrides,
+});
+
+describe('Status', () => {
+    describe('diff', () => {
+        it('reports activations and non-OK plugins on the first report', () => {
+            const events = Status.diff(undefined, report({plugins: {bundle: {state: 'OK'}, status: {state: 'NOT_READY'}}}));
+            expect(events).toEqual([
+                {type: 'bundle_activated', bundle: 'authz', revision: 'v1', previous: undefined},
+                {type: 'plugin_state_changed', plugin: 'status', from: undefined, to: 'NOT_READY', message: undefined},
+            ]);
+        });
+
+        it('reports nothing for identical reports', () => {
+            expect(Status.diff(report(), report())).toEqual([]);
+        });
+
+        it('reports a new activation', () => {
+            const next = report();
+            next.bundles!.authz = {...next.bundles!.authz, active_revision: 'v2', last_successful_activation: '2026-01-01T00:01:00Z'};
+            expect(Status.diff(report(), next)).toEqual([
+                {type: 'bundle_activated', bundle: 'authz', revision: 'v2', previous: 'v1'},
+            ]);
+        });
+
+        it('tells download failures from activation failures, once', () => {
+            const download = report();
+            download.bundles!.authz = {...download.bundles!.authz, last_request: '2026-01-01T00:01:00Z', code: 'bundle_error', message: 'server replied with Not Found', http_code: 404};
+            expect(Status.diff(report(), download)).toEqual([
+                {type: 'bundle_download_failed', bundle: 'authz', code: 'bundle_error', message: 'server replied with Not Found', http_code: 404},
+            ]);
+            expect(Status.diff(download, download)).toEqual([]);
+
+            const activation = report();
+            const errors = [{code: 'rego_parse_error', message: 'unexpected eof token'}];
+            activation.bundles!.authz = {...activation.bundles!.authz, last_request: '2026-01-01T00:01:00Z', last_successful_download: '2026-01-01T00:01:00Z', code: 'bundle_error', message: '1 error occurred', errors};
+            expect(Status.diff(report(), activation)).toEqual([
+                {type: 'bundle_activation_failed', bundle: 'authz', code: 'bundle_error', message: '1 error occurred', errors},
+            ]);
+
+            expect(Status.diff(activation, report())).toEqual([
+                {type: 'bundle_recovered', bundle: 'authz', revision: 'v1'},
+            ]);
+        });
+
+        it('reports removed bundles, plugin transitions, discovery and decision log failures', () => {
+            const previous = report({decision_logs: {code: 'decision_logs_error', message: 'upload failed'}});
+            const current = report({
+                bundles: {},
+                plugins: {bundle: {state: 'NOT_READY', message: 'downloading'}, decision_logs: {state: 'OK'}},
+                discovery: {name: 'discovery', active_revision: 'd1'},
+            });
+            expect(Status.diff(previous, current)).toEqual([
+                {type: 'bundle_removed', bundle: 'authz'},
+                {type: 'discovery_activated', revision: 'd1', previous: undefined},
+                {type: 'decision_logs_recovered'},
+                {type: 'plugin_state_changed', plugin: 'bundle', from: 'OK', to: 'NOT_READY', message: 'downloading'},
+            ]);
+        });
+    });
+
+    describe('Watcher', () => {
+        it('emits the same events for pushed reports and Status API responses', () => {
+            const pushed = vi.fn();
+            const polled = vi.fn();
+            new Status.Watcher(pushed).update(report());
+            new Status.Watcher(polled).update({result: report()});
+            expect(pushed.mock.calls).toEqual(polled.mock.calls);
+            expect(pushed).toHaveBeenCalledWith(expect.objectContaining({type: 'bundle_activated'}), report());
+        });
+
+        it('tracks the latest report and supports unsubscribing', () => {
+            const listener = vi.fn();
+            const watcher = new Status.Watcher();
+            const off = watcher.on(listener);
+            watcher.update(report());
+            off();
+            watcher.update(report({plugins: {bundle: {state: 'ERROR'}}}));
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(watcher.current?.plugins?.bundle.state).toBe('ERROR');
+        });
+
+        it('polls the Status API until aborted', async () => {
+            const controller = new AbortController();
+            const states = ['OK', 'NOT_READY'];
+            const transport = vi.fn(async () => {
+                const state = states.shift() ?? 'NOT_READY';
+                return new Response(JSON.stringify({result: report({plugins: {bundle: {state}}})}), {
+                    status: 200, headers: {'Content-Type': 'application/json'},
+                });
+            });
+
+            const listener = vi.fn((event: Status.Event) => {
+                if (event.type === 'plugin_state_changed') controller.abort();
+            });
+            const client = new OPAClient({baseUrl: 'http://localhost:8181', fetch: transport});
+            await new Status.Watcher(listener).poll(client, {interval: 1, signal: controller.signal});
+
+            expect(listener).toHaveBeenCalledWith(
+                {type: 'plugin_state_changed', plugin: 'bundle', from: 'OK', to: 'NOT_READY', message: undefined},
+                expect.anything(),
+            );
+        });
+    });
+});
@@ -0,0 +1,319 @@
+import {describe, it, expect, beforeEach} from 'vitest';
+import {mkdir, mkdtemp, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {OPAClient, Patch, Path, Sync} from '../src';
+
+/**
+ * In-memory stand-in for OPA's Data and Query APIs, storing one document per path.
+ */
+const server = () => {
+    const state: { data: Record<string, unknown>, calls: string[] } = {data: {}, calls: []};
+    const fetch = async (url: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+        const {pathname} = new URL(String(url));
+        const method = init.method ?? 'GET';
+        state.calls.push(`${method} ${pathname}`);
+
+        let body = init.body as string | ReadableStream | undefined;
+        if (body instanceof ReadableStream) body = await new Response(body.pipeThrough(new DecompressionStream('gzip'))).text();
+        const json = body ? JSON.parse(body) : undefined;
+
+        if (pathname === '/v1/query') {
+            const path = Path.parseRef(json.query.replace(/^_ = /, '')).join('/');
+            return Response.json(path in state.data ? {result: [{}]} : {});
+        }
+        const path = Path.decode(pathname.replace(/^\/v1\/data\//, '')).join('/');
+        switch (method) {
+            case 'GET':
+                return Response.json(path in state.data ? {result: state.data[path]} : {});
+            case 'PUT':
+                state.data[path] = json;
+                return new Response(null, {status: 204});
+            case 'PATCH':
+                state.data[path] = Patch.apply(state.data[path], json);
+                return new Response(null, {status: 204});
+            default:
+                delete state.data[path];
+                return new Response(null, {status: 204});
+        }
+    };
+    return {state, client: new OPAClient({baseUrl: 'http://localhost:8181', fetch: fetch as typeof globalThis.fetch})};
+};
+
+describe('Sync', () => {
+    let opa: ReturnType<typeof server>;
+    let engine: Sync.Engine;
+    const bindings = Object.fromEntries(Array.from({length: 50}, (_, i) => [`user-${i}`, ['viewer']]));
+
+    beforeEach(() => {
+        opa = server();
+        engine = new Sync.Engine({client: opa.client, root: 'authz/bindings'});
+    });
+
+    it('puts a missing document whole', async () => {
+        const report = await engine.sync(bindings);
+
+        expect(report).toMatchObject({root: 'authz/bindings', action: 'put', applied: true, restored: false});
+        expect(opa.state.data['authz/bindings']).toEqual(bindings);
+    });
+
+    it('patches only what changed', async () => {
+        await engine.sync(bindings);
+        const report = await engine.sync({...bindings, 'user-1': ['admin'], 'user-50': ['viewer']});
+
+        expect(report.action).toBe('patch');
+        expect(report.operations).toEqual([
+            {op: 'replace', path: '/user-1/0', value: 'admin'},
+            {op: 'add', path: '/user-50', value: ['viewer']},
+        ]);
+        expect(opa.state.data['authz/bindings']).toMatchObject({'user-1': ['admin'], 'user-50': ['viewer']});
+        expect(opa.state.calls.at(-1)).toBe('PATCH /v1/data/authz/bindings');
+    });
+
+    it('puts the document when a patch would be larger', async () => {
+        await engine.sync({a: 1});
+        expect((await engine.sync({b: 2})).action).toBe('put');
+    });
+
+    it('deletes the root for an undefined desired state', async () => {
+        await engine.sync(bindings);
+        expect((await engine.sync(undefined)).action).toBe('delete');
+        expect(opa.state.data).toEqual({});
+        expect((await engine.sync(undefined)).action).toBe('none');
+    });
+
+    it('reports without writing on dry runs', async () => {
+        const report = await engine.sync({'user-1': ['admin']}, {dryRun: true});
+
+        expect(report).toMatchObject({action: 'put', applied: false, operations: [{op: 'add', path: '', value: {'user-1': ['admin']}}]});
+        expect(opa.state.data).toEqual({});
+        expect(Sync.format(report)).toBe('authz/bindings: put (dry run)\n+ authz/bindings {"user-1":["admin"]}');
+    });
+
+    it('skips the comparison while the source is unchanged, and restores the tree after a restart', async () => {
+        await engine.tick(() => bindings);
+        opa.state.calls.length = 0;
+
+        expect(await engine.tick(() => ({...bindings}))).toMatchObject({action: 'none', applied: false});
+        expect(opa.state.calls).toEqual(['POST /v1/query']);
+
+        opa.state.data = {};
+        const report = await engine.tick(() => bindings);
+        expect(report).toMatchObject({action: 'put', applied: true, restored: true});
+        expect(opa.state.data['authz/bindings']).toEqual(bindings);
+    });
+
+    it('compares the whole tree on every tick without change detection', async () => {
+        await engine.tick(() => bindings);
+        opa.state.data['authz/bindings'] = {};
+
+        expect((await engine.tick(() => bindings, {changeDetection: false})).action).toBe('put');
+        expect(opa.state.data['authz/bindings']).toEqual(bindings);
+    });
+
+    it('runs on an interval until aborted', async () => {
+        const controller = new AbortController();
+        const reports: Sync.Report[] = [];
+        let version = 0;
+
+        await engine.run(() => ({...bindings, version: ++version}), {
+            interval: 1,
+            signal: controller.signal,
+            onSync: (report) => {
+                reports.push(report);
+                if (reports.length === 3) controller.abort();
+            },
+        });
+
+        expect(reports.map((report) => report.action)).toEqual(['put', 'patch', 'patch']);
+        expect(opa.state.data['authz/bindings']).toMatchObject({version: 3});
+    });
+
+    it('reports failures to onError and keeps running', async () => {
+        const controller = new AbortController();
+        const errors: unknown[] = [];
+        await engine.run(() => {
+            throw new Error('database down');
+        }, {
+            interval: 1,
+            signal: controller.signal,
+            onError: (error) => {
+                errors.push(error);
+                if (errors.length === 2) controller.abort();
+            },
+        });
+
+        expect(errors).toHaveLength(2);
+        await expect(engine.run(() => Promise.reject(new Error('database down')))).rejects.toThrow('database down');
+    });
+
+    it('encodes the root once', async () => {
+        const tenant = new Sync.Engine({client: opa.client, root: ['tenants', 'a b']});
+        expect((await tenant.tick(() => bindings)).root).toBe('tenants/a%20b');
+        expect(opa.state.data['tenants/a b']).toEqual(bindings);
+
+        expect(await tenant.tick(() => bindings, {changeDetection: false})).toMatchObject({action: 'none', restored: false});
+        expect(opa.state.calls).toContain('GET /v1/data/tenants/a%20b');
+    });
+
+    it('rejects the root document', () => {
+        expect(() => new Sync.Engine({client: opa.client, root: ''})).toThrow(Path.InvalidPathError);
+    });
+
+    describe('Policies', () => {
+        /**
+         * Stand-in for OPA's Policy API. A write is rejected like a compile error when a module calls a function
+         * of a missing package, or when two modules define `default allow` in the same package.
+         */
+        const policyServer = (initial: Record<string, string>, fail?: (method: string, id: string) => boolean) => {
+            const state = {policies: {...initial}, calls: [] as string[]};
+            const compile = (policies: Record<string, string>): string | undefined => {
+                const packages = Object.values(policies).map((raw) => /package (\S+)/.exec(raw)![1]);
+                for (const raw of Object.values(policies)) {
+                    for (const [, pkg, name] of raw.matchAll(/data\.([\w.]+)\.(\w+)\(/g)) {
+                        if (!packages.includes(pkg)) return `undefined function data.${pkg}.${name}`;
+                    }
+                }
+                const defaults = Object.values(policies).filter((raw) => raw.includes('default allow')).map((raw) => /package (\S+)/.exec(raw)![1]);
+                if (new Set(defaults).size !== defaults.length) return 'multiple default rules data.authz.allow found';
+            };
+            const fetch = async (url: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+                const {pathname} = new URL(String(url));
+                const method = init.method ?? 'GET';
+                if (pathname === '/v1/policies') {
+                    return Response.json({result: Object.entries(state.policies).map(([id, raw]) => ({id, raw, ast: {}}))});
+                }
+                const id = decodeURIComponent(pathname.replace(/^\/v1\/policies\//, ''));
+                state.calls.push(`${method} ${id}`);
+                if (fail?.(method, id)) return Response.json({code: 'internal_error', message: 'storage failure'}, {status: 500});
+
+                const candidate = {...state.policies};
+                if (method === 'PUT') candidate[id] = init.body as string;
+                else delete candidate[id];
+                const error = compile(candidate);
+                if (error) {
+                    return Response.json({
+                        code: 'invalid_parameter',
+                        message: 'error(s) occurred while compiling module(s)',
+                        errors: [{code: 'rego_compile_error', message: error}],
+                    }, {status: 400});
+                }
+                state.policies = candidate;
+                return Response.json({});
+            };
+            return {state, client: new OPAClient({baseUrl: 'http://localhost:8181', fetch: fetch as typeof globalThis.fetch})};
+        };
+
+        const lib = 'package lib.helpers\n\nis_admin(user) if user.role == "admin"\n';
+        const app = 'package app\n\nallow if data.lib.helpers.is_admin(input.user)\n';
+
+        it('plans changes under the prefix only, by raw source', async () => {
+            const opa = policyServer({
+                'gitops/same.rego': 'package same\n',
+                'gitops/changed.rego': 'package changed\n',
+                'gitops/removed.rego': 'package removed\n',
+                'manual/other.rego': 'package other\n',
+            });
+            const policies = new Sync.Policies({client: opa.client, prefix: 'gitops/'});
+
+            const plan = await policies.plan({
+                'same.rego': 'package same\n',
+                'changed.rego': 'package changed\n\nx := 1\n',
+                'new.rego': 'package new\n',
+            });
+            expect(plan.changes.map(({id, action}) => [id, action])).toEqual([
+                ['gitops/changed.rego', 'update'],
+                ['gitops/new.rego', 'create'],
+                ['gitops/removed.rego', 'delete'],
+                ['gitops/same.rego', 'unchanged'],
+            ]);
+            expect(Sync.format(plan)).toBe([
+                'gitops/: 1 to create, 1 to update, 1 to delete, 1 unchanged',
+                '~ gitops/changed.rego',
+                '+ gitops/new.rego',
+                '- gitops/removed.rego',
+                '  gitops/same.rego',
+            ].join('\n'));
+
+            expect((await policies.apply(plan)).map((change) => change.id)).toEqual(['gitops/changed.rego', 'gitops/new.rego', 'gitops/removed.rego']);
+            expect(Object.keys(opa.state.policies).sort()).toEqual(['gitops/changed.rego', 'gitops/new.rego', 'gitops/same.rego', 'manual/other.rego']);
+        });
+
+        it('puts packages before the modules that refer to them, and deletes in reverse', async () => {
+            const opa = policyServer({});
+            const policies = new Sync.Policies({client: opa.client, prefix: 'gitops/'});
+
+            const created = await policies.plan({'app.rego': app, 'lib.rego': lib});
+            expect(created.changes.map((change) => change.id)).toEqual(['gitops/lib.rego', 'gitops/app.rego']);
+            await policies.apply(created);
+            expect(opa.state.calls).toEqual(['PUT gitops/lib.rego', 'PUT gitops/app.rego']);
+
+            opa.state.calls.length = 0;
+            await policies.apply(await policies.plan({}));
+            expect(opa.state.calls).toEqual(['DELETE gitops/app.rego', 'DELETE gitops/lib.rego']);
+        });
+
+        it('retries changes that only compile once the others are applied', async () => {
+            const opa = policyServer({'gitops/b.rego': 'package authz\n\ndefault allow := false\n'});
+            const policies = new Sync.Policies({client: opa.client, prefix: 'gitops/'});
+
+            await policies.apply(await policies.plan({
+                'a.rego': 'package authz\n\ndefault allow := false\n',
+                'b.rego': 'package authz\n\ndeny := false\n',
+            }));
+            expect(opa.state.calls).toEqual(['PUT gitops/a.rego', 'PUT gitops/b.rego', 'PUT gitops/a.rego']);
+            expect(opa.state.policies['gitops/a.rego']).toContain('default allow');
+        });
+
+        it('rolls back to the previous modules when a change fails', async () => {
+            const initial = {'gitops/lib.rego': lib, 'gitops/old.rego': 'package old\n'};
+            const opa = policyServer(initial, (method, id) => method === 'PUT' && id === 'gitops/z.rego');
+            const policies = new Sync.Policies({client: opa.client, prefix: 'gitops/'});
+
+            const plan = await policies.plan({'lib.rego': `${lib}\nx := 1\n`, 'app.rego': app, 'z.rego': 'package z\n'});
+            const error = await policies.apply(plan).catch((error) => error);
+
+            expect(error).toBeInstanceOf(Sync.PolicySyncError);
+            expect(error).toMatchObject({change: {id: 'gitops/z.rego', action: 'create'}, rolledBack: true});
+            expect(error.message).toBe('Policy sync failed to create gitops/z.rego: storage failure');
+            expect(opa.state.policies).toEqual(initial);
+        });
+
+        it('rolls back when a module never compiles', async () => {
+            const opa = policyServer({'gitops/lib.rego': lib});
+            const policies = new Sync.Policies({client: opa.client, prefix: 'gitops/'});
+
+            const error = await policies.apply(await policies.plan({'app.rego': app})).catch((error) => error);
+            expect(error).toMatchObject({change: {id: 'gitops/lib.rego', action: 'delete'}, rolledBack: true});
+            expect(opa.state.policies).toEqual({'gitops/lib.rego': lib});
+        });
+
+        it('requires a prefix and refuses changes outside it', async () => {
+            const opa = policyServer({});
+            expect(() => new Sync.Policies({client: opa.client, prefix: ''})).toThrow('non-empty prefix');
+
+            const policies = new Sync.Policies({client: opa.client, prefix: 'gitops/'});
+            await expect(policies.apply({prefix: 'gitops/', changes: [{id: 'manual/x.rego', action: 'delete', previous: ''}]}))
+                .rejects.toThrow('outside the managed prefix');
+            expect(opa.state.calls).toEqual([]);
+        });
+
+        it('reads .rego files from a directory', async () => {
+            const directory = await mkdtemp(join(tmpdir(), 'opa-sync-'));
+            try {
+                await mkdir(join(directory, 'authz', 'v1'), {recursive: true});
+                await mkdir(join(directory, '.git'));
+                await writeFile(join(directory, 'authz', 'v1', 'allow.rego'), 'package authz.v1\n');
+                await writeFile(join(directory, 'authz', 'v1', 'allow_test.rego'), 'package authz.v1_test\n');
+                await writeFile(join(directory, 'lib.rego'), lib);
+                await writeFile(join(directory, 'README.md'), '# policies\n');
+                await writeFile(join(directory, '.git', 'x.rego'), 'package x\n');
+
+                expect(await Sync.readPolicies(directory)).toEqual({'authz/v1/allow.rego': 'package authz.v1\n', 'lib.rego': lib});
+                expect(Object.keys(await Sync.readPolicies(directory, {tests: true}))).toContain('authz/v1/allow_test.rego');
+            } finally {
+                await rm(directory, {recursive: true, force: true});
+            }
+        });
+    });
+});